@@ -2,22 +2,47 @@ import { type DelegateEvent } from 'delegate-it';
 
 import version from './config/version.js';
 
-import { delegateEvent, getCurrentUrl, Location, updateHistoryRecord } from './helpers.js';
+import {
+	delegateEvent,
+	getCurrentUrl,
+	getFormSubmission,
+	getScrollPosition,
+	Location,
+	updateHistoryRecord
+} from './helpers.js';
 import { type DelegateEventUnsubscribe } from './helpers/delegateEvent.js';
 
-import { Cache } from './modules/Cache.js';
+import { Cache, type CacheLimits } from './modules/Cache.js';
+import { type CacheAdapter } from './modules/CacheAdapters.js';
 import { Classes } from './modules/Classes.js';
+import { Prefetch, type PrefetchOptions } from './modules/Prefetch.js';
+import { Network } from './modules/Network.js';
+import { A11y, type A11yOptions } from './modules/A11y.js';
 import { type Visit, createVisit } from './modules/Visit.js';
 import { Hooks, type HookName, type HookInitOptions } from './modules/Hooks.js';
-import { getAnchorElement } from './modules/getAnchorElement.js';
-import { awaitAnimations } from './modules/awaitAnimations.js';
+import { getAnchorElement, type AnchorResolver } from './modules/getAnchorElement.js';
+import { awaitAnimations, awaitVisitAnimations } from './modules/awaitAnimations.js';
 import { navigate, performNavigation, type NavigationToSelfAction } from './modules/navigate.js';
-import { fetchPage } from './modules/fetchPage.js';
+import { fetchPage, type PendingRequest, type RetryOptions } from './modules/fetchPage.js';
+import { revalidatePage } from './modules/revalidatePage.js';
+import {
+	getErrorPolicy,
+	handleError,
+	renderErrorTemplate,
+	type ErrorPolicy
+} from './modules/handleError.js';
 import { animatePageOut } from './modules/animatePageOut.js';
-import { replaceContent } from './modules/replaceContent.js';
+import { replaceContent, type ReplaceStrategy } from './modules/replaceContent.js';
 import { scrollToContent } from './modules/scrollToContent.js';
+import { type ScrollOptions } from './modules/scroll.js';
+import { type TransitionRule } from './modules/transitionRules.js';
+import { type Route } from './modules/routes.js';
 import { animatePageIn } from './modules/animatePageIn.js';
 import { renderPage } from './modules/renderPage.js';
+import { renderWithViewTransition } from './modules/viewTransition.js';
+import { updateHead, type HeadOptions } from './modules/updateHead.js';
+import { updateAttributes } from './modules/updateAttributes.js';
+import { executeScripts, getLoadedScripts, type ScriptOptions } from './modules/executeScripts.js';
 import { use, unuse, findPlugin, type Plugin } from './modules/plugins.js';
 import { isSameResolvedUrl, resolveUrl } from './modules/resolveUrl.js';
 import { nextTick } from './utils.js';
@@ -25,16 +50,34 @@ import { type HistoryState } from './helpers/history.js';
 
 /** Options for customizing swup's behavior. */
 export type Options = {
+	/** Announce new pages to screen readers and move focus to the new content. Default: `false` */
+	a11y: boolean | Partial<A11yOptions>;
+	/** Custom resolvers for finding anchor elements, tried before the built-in ones. Default: `[]` */
+	anchorResolvers: AnchorResolver[];
 	/** Whether history visits are animated. Default: `false` */
 	animateHistoryBrowsing: boolean;
 	/** Selector for detecting animation timing. Default: `[class*="transition-"]` */
 	animationSelector: string | false;
 	/** Elements on which to add animation classes. Default: `html` element */
 	animationScope: 'html' | 'containers';
-	/** Enable in-memory page cache. Default: `true` */
-	cache: boolean;
+	/** Maximum time to wait for animations in milliseconds. `0` waits indefinitely. Default: `10000` */
+	animationTimeout: number;
+	/** Enable in-memory page cache. Use `stale-while-revalidate` to refresh cached pages in the background. Default: `true` */
+	cache: boolean | 'stale-while-revalidate';
+	/** Limits after which pages are evicted from the cache. Default: no limits */
+	cacheLimits: CacheLimits;
+	/** Storage adapter for persisting the cache across page loads. Default: `null` (in-memory only) */
+	cacheAdapter: CacheAdapter | null;
 	/** Content containers to be replaced on page visits. Default: `['#swup']` */
 	containers: string[];
+	/** How to handle error responses, by status code or range like `4xx`. Unmatched: `render`. Default: `{ 500: 'reload' }` */
+	errorPolicy: Record<string, ErrorPolicy>;
+	/** Selector of the template element rendered for the `template` error policy. Default: `'template[data-swup-error]'` */
+	errorTemplate: string | false;
+	/** Run scripts inside replaced containers. Default: `false` */
+	executeScripts: boolean | Partial<ScriptOptions>;
+	/** Selector for forms that trigger visits on submit. Default: `'form[data-swup-form]'` */
+	formSelector: string | false;
 	/** Callback for ignoring visits. Receives the element and event that triggered the visit. */
 	ignoreVisit: (url: string, { el, event }: { el?: Element; event?: Event }) => boolean;
 	/** Selector for links that trigger visits. Default: `'a[href]'` */
@@ -43,39 +86,84 @@ export type Options = {
 	linkToSelf: NavigationToSelfAction;
 	/** Enable native animations using the View Transitions API. */
 	native: boolean;
+	/** Selector of a template rendered into the containers when offline. Default: `'template[data-swup-offline]'` */
+	offlineTemplate: string | false;
+	/** Prefetch pages on hover, focus or when links become visible. Default: `false` */
+	prefetch: boolean | Partial<PrefetchOptions>;
 	/** Hook handlers to register. */
 	hooks: Partial<HookInitOptions>;
 	/** Plugins to register on startup. */
 	plugins: Plugin[];
 	/** Custom headers sent along with fetch requests. */
 	requestHeaders: Record<string, string>;
+	/** Retry failed requests with exponential backoff. Default: `false` */
+	retry: Partial<RetryOptions> | false;
+	/**
+	 * How to handle users preferring reduced motion: `disable` animations, `shorten` them,
+	 * only add the `is-reduced-motion` `class`, or `ignore` the preference. Default: `class`
+	 */
+	reducedMotion: 'disable' | 'shorten' | 'class' | 'ignore';
+	/** How to update containers: replace them entirely or patch only what changed. Default: `replace` */
+	replaceStrategy: ReplaceStrategy;
+	/** Named routes, matched against the URLs of each visit. Default: `[]` */
+	routes: Route[];
 	/** Rewrite URLs before loading them. */
 	resolveUrl: (url: string) => string;
+	/** Restore scroll positions of the window and `data-swup-scroll-container` elements on history visits. Default: `false` */
+	restoreScroll: boolean;
+	/** Scroll behavior, duration and easing, offset for sticky headers and the scroll container. */
+	scroll: Partial<ScrollOptions>;
 	/** Callback for telling swup to ignore certain popstate events.  */
 	skipPopStateHandling: (event: PopStateEvent) => boolean;
 	/** Request timeout in milliseconds. */
 	timeout: number;
+	/** Rules for animations, containers, caching and scrolling of visits between matching paths. Default: `[]` */
+	transitions: TransitionRule[];
+	/** Update meta tags, stylesheets and other head tags from the incoming page. Default: `false` */
+	updateHead: boolean | Partial<HeadOptions>;
+	/** Attributes to update on the html and body elements, like `lang` or `class`. Default: `[]` */
+	updateAttributes: string[] | false;
 };
 
 const defaults: Options = {
+	a11y: false,
+	anchorResolvers: [],
 	animateHistoryBrowsing: false,
 	animationSelector: '[class*="transition-"]',
 	animationScope: 'html',
+	animationTimeout: 10000,
 	cache: true,
+	cacheLimits: {},
+	cacheAdapter: null,
 	containers: ['#swup'],
+	errorPolicy: { 500: 'reload' },
+	errorTemplate: 'template[data-swup-error]',
+	executeScripts: false,
+	formSelector: 'form[data-swup-form]',
 	hooks: {},
 	ignoreVisit: (url, { el } = {}) => !!el?.closest('[data-no-swup]'),
 	linkSelector: 'a[href]',
 	linkToSelf: 'scroll',
 	native: false,
+	offlineTemplate: 'template[data-swup-offline]',
 	plugins: [],
+	prefetch: false,
+	reducedMotion: 'class',
+	replaceStrategy: 'replace',
 	resolveUrl: (url) => url,
+	restoreScroll: false,
+	routes: [],
+	scroll: {},
+	retry: false,
 	requestHeaders: {
 		'X-Requested-With': 'swup',
 		'Accept': 'text/html, application/xhtml+xml'
 	},
 	skipPopStateHandling: (event) => (event.state as HistoryState)?.source !== 'swup',
-	timeout: 0
+	timeout: 0,
+	transitions: [],
+	updateHead: false,
+	updateAttributes: []
 };
 
 /** Swup page transition library. */
@@ -96,6 +184,12 @@ export default class Swup {
 	readonly hooks: Hooks;
 	/** Animation class manager */
 	readonly classes: Classes;
+	/** Link prefetcher */
+	readonly prefetch: Prefetch;
+	/** Network status observer */
+	readonly network: Network;
+	/** Accessibility handler */
+	readonly a11y: A11y;
 	/** Location of the currently visible page */
 	location: Location = Location.fromUrl(window.location.href);
 	/** URL of the currently visible page @deprecated Use swup.location.url instead */
@@ -106,10 +200,26 @@ export default class Swup {
 	protected currentHistoryIndex: number;
 	/** Delegated event subscription handle */
 	protected clickDelegate?: DelegateEventUnsubscribe;
+	/** Delegated form submit subscription handle */
+	protected submitDelegate?: DelegateEventUnsubscribe;
 	/** Navigation status */
 	protected navigating: boolean = false;
 	/** Run anytime a visit ends */
 	protected onVisitEnd?: () => Promise<unknown>;
+	/** Requests currently in flight, indexed by resolved URL */
+	protected pendingRequests: Map<string, PendingRequest> = new Map();
+	/** External scripts loaded on the current page, by URL */
+	protected loadedScripts: Set<string> = new Set();
+	/** Native view transition currently running */
+	protected viewTransition?: ViewTransition;
+	/** Script elements that have already run */
+	protected executedScripts: WeakSet<Element> = new WeakSet();
+	/** Head tags of the server-rendered page or added by swup, which may be removed on updates */
+	protected headTags: WeakSet<Element> = new WeakSet();
+	/** Smooth scrolling currently running */
+	protected scrolling?: Promise<void>;
+	/** Pending save of the scroll position, while the user is scrolling */
+	protected scrollSaveTimeout?: ReturnType<typeof setTimeout>;
 
 	/** Install a plugin */
 	use = use;
@@ -131,11 +241,29 @@ export default class Swup {
 	delegateEvent = delegateEvent;
 	/** Fetch a page from the server */
 	fetchPage = fetchPage;
+	/** Refresh a cached page in the background */
+	protected revalidatePage = revalidatePage;
+	/** Find the error policy for a status code */
+	protected getErrorPolicy = getErrorPolicy;
+	/** Handle a failed visit */
+	protected handleError = handleError;
+	/** Render the error template into the content containers */
+	protected renderErrorTemplate = renderErrorTemplate;
 	/** Resolve when animations on the page finish */
 	awaitAnimations = awaitAnimations;
+	/** Resolve when the animations of a visit finish, per container if scoped to containers */
+	protected awaitVisitAnimations = awaitVisitAnimations;
 	protected renderPage = renderPage;
+	/** Render the next page inside a native view transition */
+	protected renderWithViewTransition = renderWithViewTransition;
 	/** Replace the content after page load */
 	replaceContent = replaceContent;
+	/** Update the document head to match the incoming page */
+	protected updateHead = updateHead;
+	/** Update attributes of the html and body elements to match the incoming page */
+	protected updateAttributes = updateAttributes;
+	/** Run scripts inside replaced containers */
+	protected executeScripts = executeScripts;
 	protected animatePageIn = animatePageIn;
 	protected animatePageOut = animatePageOut;
 	protected scrollToContent = scrollToContent;
@@ -154,11 +282,16 @@ export default class Swup {
 		this.options = { ...this.defaults, ...options };
 
 		this.handleLinkClick = this.handleLinkClick.bind(this);
+		this.handleFormSubmit = this.handleFormSubmit.bind(this);
 		this.handlePopState = this.handlePopState.bind(this);
+		this.handleScroll = this.handleScroll.bind(this);
 
 		this.cache = new Cache(this);
 		this.classes = new Classes(this);
 		this.hooks = new Hooks(this);
+		this.prefetch = new Prefetch(this);
+		this.network = new Network(this);
+		this.a11y = new A11y(this);
 		this.visit = this.createVisit({ to: '' });
 
 		this.currentHistoryIndex = (window.history.state as HistoryState)?.index ?? 1;
@@ -169,13 +302,42 @@ export default class Swup {
 	/** Enable this instance, adding listeners and classnames. */
 	async enable() {
 		// Add event listener
-		const { linkSelector } = this.options;
+		const { linkSelector, formSelector } = this.options;
 		this.clickDelegate = this.delegateEvent(linkSelector, 'click', this.handleLinkClick);
+		if (formSelector) {
+			this.submitDelegate = this.delegateEvent(formSelector, 'submit', this.handleFormSubmit);
+		}
 
 		window.addEventListener('popstate', this.handlePopState);
 
-		// Set scroll restoration to manual if animating history visits
-		if (this.options.animateHistoryBrowsing) {
+		// Keep track of the scroll position of the current history record
+		if (this.options.restoreScroll) {
+			window.addEventListener('scroll', this.handleScroll, { capture: true, passive: true });
+		}
+
+		// Start prefetching links
+		this.prefetch.enable();
+
+		// Watch network status
+		this.network.enable();
+
+		// Create live region for announcing pages
+		this.a11y.enable();
+
+		// Remember the server-rendered head tags, to only ever remove these or our own
+		if (this.options.updateHead) {
+			this.headTags = new WeakSet(document.head.children);
+		}
+
+		// Remember scripts loaded by the browser, to avoid running them twice
+		if (this.options.executeScripts) {
+			this.loadedScripts = getLoadedScripts();
+			this.executedScripts = new WeakSet(document.scripts);
+		}
+
+		// Set scroll restoration to manual if animating history visits or restoring scroll ourselves
+		// Otherwise, leave it to the browser
+		if (this.options.animateHistoryBrowsing || this.options.restoreScroll) {
 			window.history.scrollRestoration = 'manual';
 		}
 
@@ -217,14 +379,28 @@ export default class Swup {
 
 	/** Disable this instance, removing listeners and classnames. */
 	async destroy() {
-		// remove delegated listener
+		// remove delegated listeners
 		this.clickDelegate!.destroy();
+		this.submitDelegate?.destroy();
 
 		// remove popstate listener
 		window.removeEventListener('popstate', this.handlePopState);
 
-		// empty cache
-		this.cache.clear();
+		// remove scroll listener
+		window.removeEventListener('scroll', this.handleScroll, { capture: true });
+		clearTimeout(this.scrollSaveTimeout);
+
+		// stop prefetching links
+		this.prefetch.disable();
+
+		// stop watching network status
+		this.network.disable();
+
+		// remove live region
+		this.a11y.disable();
+
+		// empty cache, keeping persisted pages for the next instance
+		this.cache.clear({ persist: false });
 
 		// unmount plugins
 		this.options.plugins.forEach((plugin) => this.unuse(plugin));
@@ -328,6 +504,48 @@ export default class Swup {
 		});
 	}
 
+	protected handleFormSubmit(event: DelegateEvent<SubmitEvent>) {
+		const el = event.delegateTarget as HTMLFormElement;
+		const { submitter } = event;
+
+		// Exit early if another handler already took care of this
+		if (event.defaultPrevented) {
+			return;
+		}
+
+		const { url, hash, method, body, target } = getFormSubmission(el, submitter);
+
+		// Let the browser handle dialog forms and forms submitting into other windows
+		if (method === 'DIALOG' || (target && target !== '_self')) {
+			return;
+		}
+
+		// Exit early if the form should be ignored
+		if (this.shouldIgnoreVisit(url + hash, { el, event })) {
+			return;
+		}
+
+		const visit = this.createVisit({ to: url, hash, el, event });
+
+		this.hooks.callSync('form:submit', visit, { el, event, submitter }, () => {
+			event.preventDefault();
+			this.performNavigation(visit, { method, body });
+		});
+	}
+
+	/** Save the scroll position once the user stops scrolling. */
+	protected handleScroll() {
+		clearTimeout(this.scrollSaveTimeout);
+		this.scrollSaveTimeout = setTimeout(() => this.saveScrollPosition(), 100);
+	}
+
+	/** Save the scroll position in the current history record, cancelling any pending save. */
+	protected saveScrollPosition() {
+		clearTimeout(this.scrollSaveTimeout);
+		this.scrollSaveTimeout = undefined;
+		updateHistoryRecord(null, { scroll: getScrollPosition() });
+	}
+
 	protected handlePopState(event: PopStateEvent) {
 		const href: string = (event.state as HistoryState)?.url ?? window.location.href;
 
@@ -367,6 +585,13 @@ export default class Swup {
 			visit.scroll.reset = true;
 		}
 
+		// Restore the scroll position saved when leaving the history entry
+		// A pending save belongs to the entry we left, which is no longer current
+		if (this.options.restoreScroll) {
+			clearTimeout(this.scrollSaveTimeout);
+			visit.scroll.position = (event.state as HistoryState)?.scroll;
+		}
+
 		this.hooks.callSync('history:popstate', visit, { event }, () => {
 			this.performNavigation(visit);
 		});
@@ -5,5 +5,11 @@ export { classify } from './helpers/classify.js';
 export { createHistoryRecord, updateHistoryRecord } from './helpers/history.js';
 export { delegateEvent } from './helpers/delegateEvent.js';
 export { getCurrentUrl } from './helpers/getCurrentUrl.js';
+export { getFormSubmission, type FormSubmission } from './helpers/getFormSubmission.js';
 export { Location } from './helpers/Location.js';
 export { matchPath } from './helpers/matchPath.js';
+export {
+	getScrollPosition,
+	restoreScrollPosition,
+	type ScrollPosition
+} from './helpers/scrollPosition.js';
@@ -0,0 +1,49 @@
+import { Location } from './Location.js';
+
+export interface FormSubmission {
+	/** The URL to submit the form to, including serialized data for GET forms */
+	url: string;
+	/** The hash of the form action */
+	hash: string;
+	/** The request method. `DIALOG` forms close a dialog instead of submitting. */
+	method: 'GET' | 'POST' | 'DIALOG';
+	/** The request body of POST forms */
+	body?: FormData | URLSearchParams;
+	/** The browsing context to submit into */
+	target: string;
+}
+
+/**
+ * Determine how a form would be submitted by the browser, taking into account
+ * overrides on the submitter button: `formaction`, `formmethod`, `formenctype` and `formtarget`.
+ */
+export const getFormSubmission = (
+	form: HTMLFormElement,
+	submitter?: HTMLElement | null
+): FormSubmission => {
+	const attr = (name: string) =>
+		submitter?.getAttribute(`form${name}`) ?? form.getAttribute(name) ?? '';
+
+	const action = new Location(attr('action') || window.location.href);
+	const method = attr('method').toUpperCase();
+	const enctype = attr('enctype').toLowerCase();
+	const target = attr('target');
+
+	if (method === 'DIALOG') {
+		return { url: action.url, hash: action.hash, method, target };
+	}
+
+	const data = new FormData(form, submitter);
+	const params = new URLSearchParams();
+	data.forEach((value, key) => {
+		params.append(key, value instanceof File ? value.name : value);
+	});
+
+	if (method !== 'POST') {
+		action.search = params.toString();
+		return { url: action.url, hash: action.hash, method: 'GET', target };
+	}
+
+	const body = enctype === 'multipart/form-data' ? data : params;
+	return { url: action.url, hash: action.hash, method, body, target };
+};
@@ -1,10 +1,12 @@
 import { getCurrentUrl } from './getCurrentUrl.js';
+import type { ScrollPosition } from './scrollPosition.js';
 
 export interface HistoryState {
 	url: string;
 	source: 'swup';
 	random: number;
 	index?: number;
+	scroll?: ScrollPosition;
 	[key: string]: unknown;
 }
 
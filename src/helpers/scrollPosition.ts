@@ -0,0 +1,45 @@
+/** Scroll offsets of a single element or the window. */
+export interface ScrollOffset {
+	x: number;
+	y: number;
+}
+
+/** Scroll position of the window and of inner scroll containers, keyed by name. */
+export interface ScrollPosition {
+	window: ScrollOffset;
+	containers: Record<string, ScrollOffset>;
+}
+
+/** Get the scroll containers marked with `data-swup-scroll-container`, keyed by name or id. */
+const getScrollContainers = (): [string, Element][] => {
+	return Array.from(document.querySelectorAll('[data-swup-scroll-container]'))
+		.map((el): [string, Element] => [
+			el.getAttribute('data-swup-scroll-container') || el.id,
+			el
+		])
+		.filter(([key]) => !!key);
+};
+
+/** Read the current scroll position of the window and all marked scroll containers. */
+export const getScrollPosition = (): ScrollPosition => {
+	const containers: Record<string, ScrollOffset> = {};
+	getScrollContainers().forEach(([key, el]) => {
+		containers[key] = { x: el.scrollLeft, y: el.scrollTop };
+	});
+	return { window: { x: window.scrollX, y: window.scrollY }, containers };
+};
+
+/** Restore a previously saved scroll position. */
+export const restoreScrollPosition = ({
+	window: offset,
+	containers = {}
+}: ScrollPosition): void => {
+	window.scrollTo({ left: offset.x, top: offset.y, behavior: 'instant' });
+	getScrollContainers().forEach(([key, el]) => {
+		const saved = containers[key];
+		if (saved) {
+			el.scrollLeft = saved.x;
+			el.scrollTop = saved.y;
+		}
+	});
+};
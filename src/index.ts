@@ -3,8 +3,19 @@ import type { DelegateEventUnsubscribe } from './helpers/delegateEvent.js';
 import type { DelegateEvent, DelegateEventHandler } from 'delegate-it';
 import Swup from './Swup.js';
 import type { Options } from './Swup.js';
-import type { CacheData } from './modules/Cache.js';
-import type { PageData } from './modules/fetchPage.js';
+import type { CacheData, CacheLimits, CacheEvictionReason } from './modules/Cache.js';
+import type { CacheAdapter, CacheAdapterOptions } from './modules/CacheAdapters.js';
+import type { PageData, FetchAttempt, RetryOptions } from './modules/fetchPage.js';
+import type { ErrorPolicy } from './modules/handleError.js';
+import type { PrefetchOptions } from './modules/Prefetch.js';
+import type { HeadOptions, HeadUpdate } from './modules/updateHead.js';
+import type { ScriptOptions } from './modules/executeScripts.js';
+import type { ReplaceStrategy } from './modules/replaceContent.js';
+import type { A11yOptions } from './modules/A11y.js';
+import type { ScrollOptions } from './modules/scroll.js';
+import type { AnchorResolver } from './modules/getAnchorElement.js';
+import type { TransitionRule, TransitionMatch } from './modules/transitionRules.js';
+import type { Route, RouteMatch, RouteLocation, RouteParams } from './modules/routes.js';
 import type {
 	Visit,
 	VisitFrom,
@@ -29,12 +40,38 @@ import type { Plugin } from './modules/plugins.js';
 export default Swup;
 export * from './helpers.js';
 export * from './utils.js';
+export {
+	MemoryCacheAdapter,
+	SessionStorageCacheAdapter,
+	IndexedDBCacheAdapter
+} from './modules/CacheAdapters.js';
 export type {
 	Swup,
 	Options,
 	Plugin,
 	CacheData,
+	CacheLimits,
+	CacheEvictionReason,
+	CacheAdapter,
+	CacheAdapterOptions,
 	PageData,
+	FetchAttempt,
+	RetryOptions,
+	ErrorPolicy,
+	PrefetchOptions,
+	HeadOptions,
+	HeadUpdate,
+	ScriptOptions,
+	ReplaceStrategy,
+	A11yOptions,
+	ScrollOptions,
+	AnchorResolver,
+	TransitionRule,
+	TransitionMatch,
+	Route,
+	RouteMatch,
+	RouteLocation,
+	RouteParams,
 	Path,
 	Visit,
 	VisitFrom,
@@ -0,0 +1,139 @@
+import type Swup from '../Swup.js';
+import { query } from '../utils.js';
+import type { Visit } from './Visit.js';
+
+/** Define how page changes are made accessible. */
+export type A11yOptions = {
+	/** Announce the new page to screen readers. Default: `true` */
+	announce: boolean;
+	/** Template of the announcement. Replaces `{title}` and `{url}`. Default: `'Navigated to: {title}'` */
+	announcement: string;
+	/** Move focus to the new content. Default: `true` */
+	focus: boolean;
+	/** Selector of the heading inside the containers to focus. Default: `'h1'` */
+	headingSelector: string;
+};
+
+const defaults: A11yOptions = {
+	announce: true,
+	announcement: 'Navigated to: {title}',
+	focus: true,
+	headingSelector: 'h1'
+};
+
+/** Visually hide an element while keeping it available to screen readers. */
+const visuallyHidden = [
+	'position: absolute',
+	'width: 1px',
+	'height: 1px',
+	'margin: -1px',
+	'padding: 0',
+	'overflow: hidden',
+	'clip: rect(0 0 0 0)',
+	'white-space: nowrap',
+	'border: 0'
+].join('; ');
+
+/**
+ * Accessibility handler.
+ *
+ * Announces new pages in a live region and moves focus to the new content.
+ */
+export class A11y {
+	/** Swup instance this handler belongs to */
+	protected swup: Swup;
+
+	/** Live region for announcing page changes */
+	protected liveRegion?: HTMLElement;
+
+	constructor(swup: Swup) {
+		this.swup = swup;
+	}
+
+	/** Resolved accessibility options, or `false` if disabled. */
+	get options(): A11yOptions | false {
+		const { a11y } = this.swup.options;
+		if (!a11y) return false;
+		return a11y === true ? defaults : { ...defaults, ...a11y };
+	}
+
+	/** Create the live region. */
+	enable(): void {
+		if (!this.options || this.liveRegion) return;
+		const liveRegion = document.createElement('div');
+		liveRegion.className = 'swup-announcer';
+		liveRegion.setAttribute('aria-live', 'assertive');
+		liveRegion.setAttribute('aria-atomic', 'true');
+		liveRegion.setAttribute('style', visuallyHidden);
+		document.body.appendChild(liveRegion);
+		this.liveRegion = liveRegion;
+	}
+
+	/** Remove the live region. */
+	disable(): void {
+		this.liveRegion?.remove();
+		this.liveRegion = undefined;
+	}
+
+	/** Announce the new page and move focus to its content. */
+	async update(visit: Visit): Promise<void> {
+		const { options } = this;
+		if (!options) return;
+		if (options.announce) {
+			await this.announce(visit, options);
+		}
+		if (options.focus) {
+			this.focus(visit, options);
+		}
+	}
+
+	/** Announce the new page in the live region, letting plugins customize the text. */
+	protected async announce(visit: Visit, options: A11yOptions): Promise<void> {
+		const url = visit.to.url;
+		const heading = this.getHeading(visit, options);
+		const title = document.title || heading?.textContent?.trim() || url;
+		const announcement = options.announcement
+			.replace(/\{title\}/g, title)
+			.replace(/\{url\}/g, url);
+
+		await this.swup.hooks.call(
+			'content:announce',
+			visit,
+			{ title, url, announcement },
+			(visit, { announcement }) => {
+				if (this.liveRegion) {
+					this.liveRegion.textContent = announcement;
+				}
+			}
+		);
+	}
+
+	/**
+	 * Move focus to the new content: the anchor resolved when scrolling, an element marked with
+	 * `data-swup-focus`, the main heading or the first container, in that order.
+	 */
+	protected focus(visit: Visit, options: A11yOptions): void {
+		const target =
+			visit.scroll.anchor ||
+			query('[data-swup-focus]') ||
+			this.getHeading(visit, options) ||
+			(visit.containers[0] ? query(visit.containers[0]) : null);
+
+		if (!(target instanceof HTMLElement)) return;
+		// Make the target focusable for now, removing the tabindex once focus moves on
+		if (!target.hasAttribute('tabindex') && target.tabIndex < 0) {
+			target.setAttribute('tabindex', '-1');
+			target.addEventListener('blur', () => target.removeAttribute('tabindex'), {
+				once: true
+			});
+		}
+		target.focus({ preventScroll: true });
+	}
+
+	/** Find the main heading inside the containers. */
+	protected getHeading(visit: Visit, { headingSelector }: A11yOptions): HTMLElement | null {
+		if (!visit.containers.length) return null;
+		const selector = visit.containers.map((container) => `${container} ${headingSelector}`);
+		return query(selector.join(', '));
+	}
+}
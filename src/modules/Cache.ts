@@ -1,21 +1,57 @@
 import type Swup from '../Swup.js';
 import { Location } from '../helpers.js';
+import { runAsPromise } from '../utils.js';
 import { type PageData } from './fetchPage.js';
+import { type CacheAdapter } from './CacheAdapters.js';
+import { type CacheValidation } from './cacheControl.js';
 
-export interface CacheData extends PageData {}
+export interface CacheData extends PageData, CacheValidation {
+	/** Timestamp of when the page was saved to the cache */
+	created: number;
+	/** Timestamp of when the page was last read from the cache */
+	accessed: number;
+}
+
+/** Limits after which cached pages are evicted. Unset or `0` means no limit. */
+export interface CacheLimits {
+	/** Maximum number of pages to keep. Least recently used pages are evicted first. */
+	maxEntries?: number;
+	/** Maximum combined size of all cached HTML, in bytes. */
+	maxSize?: number;
+	/** Time in milliseconds after which a cached page expires. */
+	maxAge?: number;
+}
+
+/** Why a page was evicted from the cache. */
+export type CacheEvictionReason = 'maxEntries' | 'maxSize' | 'maxAge';
+
+/** Get the size of a string in bytes, as UTF-8. */
+const getByteSize = (text: string): number => new TextEncoder().encode(text).length;
 
 /**
- * In-memory page cache.
+ * In-memory page cache, optionally persisted through a storage adapter.
  */
 export class Cache {
 	/** Swup instance this cache belongs to */
 	protected swup: Swup;
 
-	/** Cached pages, indexed by URL */
+	/** Cached pages, indexed by URL. Ordered from least to most recently used. */
 	protected pages: Map<string, CacheData> = new Map();
 
+	/** Combined size of all cached HTML, in bytes */
+	protected bytes: number = 0;
+
+	/** Resolves once pages from the storage adapter have been restored */
+	readonly restored: Promise<void>;
+
 	constructor(swup: Swup) {
 		this.swup = swup;
+		this.restored = this.restore();
+	}
+
+	/** Storage adapter for persisting pages, if any. */
+	protected get adapter(): CacheAdapter | undefined {
+		return this.swup.options.cacheAdapter || undefined;
 	}
 
 	/** Number of cached pages in memory. */
@@ -34,39 +70,62 @@ export class Cache {
 
 	/** Check if the given URL has been cached. */
 	has(url: string): boolean {
-		return this.pages.has(this.resolve(url));
+		url = this.resolve(url);
+		const page = this.pages.get(url);
+		if (page && this.isExpired(page)) {
+			this.evict(url, 'maxAge');
+			return false;
+		}
+		return !!page;
 	}
 
 	/** Return a shallow copy of the cached page object if available. */
 	get(url: string): CacheData | undefined {
-		const result = this.pages.get(this.resolve(url));
+		url = this.resolve(url);
+		const result = this.pages.get(url);
 		if (!result) return result;
+		if (this.isExpired(result)) {
+			this.evict(url, 'maxAge');
+			return undefined;
+		}
+
+		// Move to the end of the map to mark as most recently used
+		result.accessed = Date.now();
+		this.pages.delete(url);
+		this.pages.set(url, result);
+
 		return { ...result };
 	}
 
 	/** Create a cache record for the specified URL. */
-	set(url: string, page: CacheData) {
+	set(url: string, page: PageData) {
 		url = this.resolve(url);
-		page = { ...page, url };
-		this.pages.set(url, page);
-		this.swup.hooks.callSync('cache:set', undefined, { page });
+		const now = Date.now();
+		const record: CacheData = { created: now, accessed: now, ...page, url };
+		this.write(url, record);
+		this.swup.hooks.callSync('cache:set', undefined, { page: record });
+		this.enforceLimits();
 	}
 
 	/** Update a cache record, overwriting or adding custom data. */
 	update(url: string, payload: object) {
 		url = this.resolve(url);
-		const page = { ...this.get(url), ...payload, url } as CacheData;
-		this.pages.set(url, page);
+		const page = { ...this.pages.get(url), ...payload, url } as CacheData;
+		this.write(url, page);
 	}
 
 	/** Delete a cache record. */
 	delete(url: string): void {
-		this.pages.delete(this.resolve(url));
+		this.remove(this.resolve(url));
 	}
 
-	/** Empty the cache. */
-	clear(): void {
+	/** Empty the cache. Pass `persist: false` to keep the pages in the storage adapter. */
+	clear({ persist = true }: { persist?: boolean } = {}): void {
 		this.pages.clear();
+		this.bytes = 0;
+		if (persist) {
+			this.persist((adapter) => adapter.clear());
+		}
 		this.swup.hooks.callSync('cache:clear', undefined, undefined);
 	}
 
@@ -84,4 +143,100 @@ export class Cache {
 		const { url } = Location.fromUrl(urlToResolve);
 		return this.swup.resolveUrl(url);
 	}
+
+	/** Save a record, keeping track of the combined size of all pages. */
+	protected write(url: string, page: CacheData, persist: boolean = true): void {
+		this.remove(url, persist);
+		this.pages.set(url, page);
+		this.bytes += getByteSize(page.html ?? '');
+		if (persist) {
+			this.persist((adapter) => adapter.save(url, page));
+		}
+	}
+
+	/** Remove a record, keeping track of the combined size of all pages. */
+	protected remove(url: string, persist: boolean = true): CacheData | undefined {
+		const page = this.pages.get(url);
+		if (page) {
+			this.pages.delete(url);
+			this.bytes -= getByteSize(page.html ?? '');
+			if (persist) {
+				this.persist((adapter) => adapter.delete(url));
+			}
+		}
+		return page;
+	}
+
+	/** Load pages from the storage adapter, without overwriting pages cached in the meantime. */
+	protected async restore(): Promise<void> {
+		const { adapter } = this;
+		if (!adapter) return;
+
+		let pages: CacheData[] = [];
+		try {
+			pages = await adapter.load();
+		} catch (error) {
+			console.warn('[swup] Error restoring cache from storage', error);
+			return;
+		}
+
+		const cached = new Map(this.pages);
+		this.pages.clear();
+		this.bytes = 0;
+		pages
+			.sort((a, b) => (a.accessed ?? 0) - (b.accessed ?? 0))
+			.forEach((page) => {
+				const url = this.resolve(page.url);
+				if (!cached.has(url)) {
+					this.write(url, page, false);
+				}
+			});
+		cached.forEach((page, url) => this.write(url, page, false));
+		this.enforceLimits();
+	}
+
+	/** Pass an operation on to the storage adapter, if any. */
+	protected persist(operation: (adapter: CacheAdapter) => Promise<void> | void): void {
+		const { adapter } = this;
+		if (adapter) {
+			runAsPromise(operation, [adapter]).catch((error) => {
+				console.warn('[swup] Error persisting cache to storage', error);
+			});
+		}
+	}
+
+	/** Remove a record and let plugins know about it. */
+	protected evict(url: string, reason: CacheEvictionReason): void {
+		const page = this.remove(url);
+		if (page) {
+			this.swup.hooks.callSync('cache:evict', undefined, { page, reason });
+		}
+	}
+
+	/** Check if a record has outlived the configured maximum age. */
+	protected isExpired(page: CacheData): boolean {
+		const { maxAge } = this.swup.options.cacheLimits;
+		return !!maxAge && Date.now() - page.created > maxAge;
+	}
+
+	/** Evict expired and least recently used records until the cache is within its limits. */
+	protected enforceLimits(): void {
+		const { maxEntries, maxSize, maxAge } = this.swup.options.cacheLimits;
+
+		if (maxAge) {
+			this.pages.forEach((page, url) => {
+				if (this.isExpired(page)) {
+					this.evict(url, 'maxAge');
+				}
+			});
+		}
+
+		while (maxEntries && this.pages.size > maxEntries) {
+			this.evict(this.pages.keys().next().value!, 'maxEntries');
+		}
+
+		while (maxSize && this.bytes > maxSize && this.pages.size) {
+			this.evict(this.pages.keys().next().value!, 'maxSize');
+		}
+	}
 }
@@ -0,0 +1,264 @@
+import type { CacheData } from './Cache.js';
+
+/** Persistent storage backend for the page cache. Methods can be sync or async. */
+export interface CacheAdapter {
+	/** Load all stored pages of the current version. */
+	load(): Promise<CacheData[]> | CacheData[];
+	/** Store a page under its URL. */
+	save(url: string, page: CacheData): Promise<void> | void;
+	/** Remove a stored page. */
+	delete(url: string): Promise<void> | void;
+	/** Remove all stored pages. */
+	clear(): Promise<void> | void;
+}
+
+export type CacheAdapterOptions = {
+	/** Prefix for all storage keys. Default: `swup:cache` */
+	prefix?: string;
+	/** Version of the stored pages. Entries of other versions are discarded on load. Default: `''` */
+	version?: string;
+};
+
+/** Serialize a cache record for storage. */
+export function serializeCacheData(page: CacheData): string {
+	return JSON.stringify(page);
+}
+
+/** Deserialize a stored cache record. Returns `undefined` for invalid records. */
+export function deserializeCacheData(data: string | null | undefined): CacheData | undefined {
+	if (!data) return;
+	try {
+		const page = JSON.parse(data) as CacheData;
+		if (typeof page?.url === 'string' && typeof page?.html === 'string') {
+			return page;
+		}
+	} catch (error) {
+		// Ignore malformed records
+	}
+}
+
+/** Check if an error signals that the storage quota was exceeded. */
+export function isQuotaExceededError(error: unknown): boolean {
+	return (
+		error instanceof DOMException &&
+		(error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+	);
+}
+
+/**
+ * Shared base for adapters with versioned keys.
+ */
+abstract class VersionedCacheAdapter implements CacheAdapter {
+	protected prefix: string;
+	protected version: string;
+
+	constructor({ prefix = 'swup:cache', version = '' }: CacheAdapterOptions = {}) {
+		this.prefix = prefix;
+		this.version = version;
+	}
+
+	/** Full storage key of a URL, including prefix and version. */
+	protected key(url: string): string {
+		return `${this.prefix}:${this.version}:${url}`;
+	}
+
+	/** Check if a storage key belongs to this adapter, in any version. */
+	protected owns(key: string): boolean {
+		return key.startsWith(`${this.prefix}:`);
+	}
+
+	/** Check if a storage key belongs to the current version of this adapter. */
+	protected isCurrent(key: string): boolean {
+		return key.startsWith(`${this.prefix}:${this.version}:`);
+	}
+
+	abstract load(): Promise<CacheData[]> | CacheData[];
+	abstract save(url: string, page: CacheData): Promise<void> | void;
+	abstract delete(url: string): Promise<void> | void;
+	abstract clear(): Promise<void> | void;
+}
+
+/**
+ * In-memory storage. Survives swup instances, but not page reloads.
+ */
+export class MemoryCacheAdapter extends VersionedCacheAdapter {
+	protected store: Map<string, string> = new Map();
+
+	load(): CacheData[] {
+		const pages: CacheData[] = [];
+		this.store.forEach((data, key) => {
+			const page = this.isCurrent(key) ? deserializeCacheData(data) : undefined;
+			if (page) {
+				pages.push(page);
+			} else {
+				this.store.delete(key);
+			}
+		});
+		return pages;
+	}
+
+	save(url: string, page: CacheData): void {
+		this.store.set(this.key(url), serializeCacheData(page));
+	}
+
+	delete(url: string): void {
+		this.store.delete(this.key(url));
+	}
+
+	clear(): void {
+		this.store.clear();
+	}
+}
+
+/**
+ * Storage in `window.sessionStorage`. Survives page reloads within the same tab.
+ */
+export class SessionStorageCacheAdapter extends VersionedCacheAdapter {
+	protected get storage(): Storage {
+		return window.sessionStorage;
+	}
+
+	/** All storage keys belonging to this adapter. */
+	protected get keys(): string[] {
+		const keys: string[] = [];
+		for (let i = 0; i < this.storage.length; i++) {
+			const key = this.storage.key(i);
+			if (key && this.owns(key)) {
+				keys.push(key);
+			}
+		}
+		return keys;
+	}
+
+	load(): CacheData[] {
+		const pages: CacheData[] = [];
+		this.keys.forEach((key) => {
+			const page = this.isCurrent(key)
+				? deserializeCacheData(this.storage.getItem(key))
+				: undefined;
+			if (page) {
+				pages.push(page);
+			} else {
+				this.storage.removeItem(key);
+			}
+		});
+		return pages;
+	}
+
+	save(url: string, page: CacheData): void {
+		const key = this.key(url);
+		const data = serializeCacheData(page);
+		let stored = false;
+		while (!stored) {
+			try {
+				this.storage.setItem(key, data);
+				stored = true;
+			} catch (error) {
+				if (!isQuotaExceededError(error)) throw error;
+				// Out of space: make room by removing the oldest stored page and try again
+				if (!this.removeOldest(key)) {
+					console.warn(`[swup] Storage quota exceeded, not persisting ${url}`);
+					return;
+				}
+			}
+		}
+	}
+
+	delete(url: string): void {
+		this.storage.removeItem(this.key(url));
+	}
+
+	clear(): void {
+		this.keys.forEach((key) => this.storage.removeItem(key));
+	}
+
+	/** Remove the least recently stored page, except the given key. */
+	protected removeOldest(except: string): boolean {
+		let oldest: { key: string; created: number } | undefined;
+		this.keys.forEach((key) => {
+			if (key === except) return;
+			const created = deserializeCacheData(this.storage.getItem(key))?.created ?? 0;
+			if (!oldest || created < oldest.created) {
+				oldest = { key, created };
+			}
+		});
+		if (oldest) {
+			this.storage.removeItem(oldest.key);
+		}
+		return !!oldest;
+	}
+}
+
+/**
+ * Storage in IndexedDB. Survives page reloads and browser restarts.
+ */
+export class IndexedDBCacheAdapter extends VersionedCacheAdapter {
+	protected storeName = 'pages';
+	protected db?: Promise<IDBDatabase>;
+
+	/** Open the database, creating the object store on first use. */
+	protected open(): Promise<IDBDatabase> {
+		this.db ??= new Promise((resolve, reject) => {
+			const request = window.indexedDB.open(this.prefix, 1);
+			request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+		return this.db;
+	}
+
+	/** Run a request against the object store and resolve with its result. */
+	protected async request<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T> {
+		const db = await this.open();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(this.storeName, mode);
+			const request = operation(transaction.objectStore(this.storeName));
+			transaction.oncomplete = () => resolve(request.result);
+			transaction.onabort = () => reject(transaction.error ?? request.error);
+			transaction.onerror = () => reject(transaction.error ?? request.error);
+		});
+	}
+
+	async load(): Promise<CacheData[]> {
+		const keys = await this.request('readonly', (store) => store.getAllKeys());
+		const pages: CacheData[] = [];
+		for (const key of keys.map(String)) {
+			let page: CacheData | undefined;
+			if (this.isCurrent(key)) {
+				const data = await this.request(
+					'readonly',
+					(store) => store.get(key) as IDBRequest<string>
+				);
+				page = deserializeCacheData(data);
+			}
+			if (page) {
+				pages.push(page);
+			} else {
+				await this.request('readwrite', (store) => store.delete(key));
+			}
+		}
+		return pages;
+	}
+
+	async save(url: string, page: CacheData): Promise<void> {
+		try {
+			await this.request('readwrite', (store) =>
+				store.put(serializeCacheData(page), this.key(url))
+			);
+		} catch (error) {
+			if (!isQuotaExceededError(error)) throw error;
+			console.warn(`[swup] Storage quota exceeded, not persisting ${url}`);
+		}
+	}
+
+	async delete(url: string): Promise<void> {
+		await this.request('readwrite', (store) => store.delete(this.key(url)));
+	}
+
+	async clear(): Promise<void> {
+		await this.request('readwrite', (store) => store.clear());
+	}
+}
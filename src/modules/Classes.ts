@@ -1,5 +1,6 @@
 import type Swup from '../Swup.js';
 import { queryAll } from '../utils.js';
+import { classify } from '../helpers.js';
 
 export class Classes {
 	protected swup: Swup;
@@ -9,7 +10,8 @@ export class Classes {
 		'is-rendering',
 		'is-popstate',
 		'is-animating',
-		'is-leaving'
+		'is-leaving',
+		'is-reduced-motion'
 	];
 
 	constructor(swup: Swup) {
@@ -41,6 +43,17 @@ export class Classes {
 		this.targets.forEach((target) => target.classList.remove(...classes));
 	}
 
+	/** Add the animation name of each container, from its `data-swup-container-animation` attribute. */
+	addContainerAnimations(): void {
+		if (this.swup.visit.animation.scope !== 'containers') return;
+		this.targets.forEach((target) => {
+			const name = target.getAttribute('data-swup-container-animation');
+			if (name) {
+				target.classList.add(`to-${classify(name)}`);
+			}
+		});
+	}
+
 	clear(): void {
 		this.targets.forEach((target) => {
 			const remove = target.className.split(' ').filter((c) => this.isSwupClass(c));
@@ -48,7 +61,7 @@ export class Classes {
 		});
 	}
 
-	protected isSwupClass(className: string): boolean {
+	isSwupClass(className: string): boolean {
 		return this.swupClasses.some((c) => className.startsWith(c));
 	}
 }
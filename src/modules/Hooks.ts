@@ -3,7 +3,10 @@ import type { DelegateEvent } from 'delegate-it';
 import type Swup from '../Swup.js';
 import { isPromise, runAsPromise } from '../utils.js';
 import { Visit } from './Visit.js';
-import type { FetchOptions, PageData } from './fetchPage.js';
+import type { FetchError, FetchOptions, PageData } from './fetchPage.js';
+import type { CacheData, CacheEvictionReason } from './Cache.js';
+import type { HeadUpdate } from './updateHead.js';
+import type { ScrollPosition } from '../helpers/scrollPosition.js';
 
 export interface HookDefinitions {
 	'animation:out:start': undefined;
@@ -13,8 +16,15 @@ export interface HookDefinitions {
 	'animation:in:await': { skip: boolean };
 	'animation:in:end': undefined;
 	'animation:skip': undefined;
+	'animation:native:ready': { transition: ViewTransition };
+	'animation:native:finished': { transition: ViewTransition };
 	'cache:clear': undefined;
-	'cache:set': { page: PageData };
+	'cache:set': { page: CacheData };
+	'cache:evict': { page: CacheData; reason: CacheEvictionReason };
+	'cache:revalidated': { page: PageData; stale: PageData; changed: boolean };
+	'content:announce': { title: string; url: string; announcement: string };
+	'content:attributes': { el: HTMLElement; incoming: HTMLElement; attributes: string[] };
+	'content:head': { head: HTMLHeadElement };
 	'content:replace': { page: PageData };
 	'content:scroll': undefined;
 	'enable': undefined;
@@ -22,27 +32,57 @@ export interface HookDefinitions {
 	'fetch:request': { url: string; options: FetchOptions };
 	'fetch:error': { url: string; status: number; response: Response };
 	'fetch:timeout': { url: string };
+	'fetch:retry': {
+		url: string;
+		attempt: number;
+		delay: number;
+		status?: number;
+		error?: unknown;
+	};
+	'form:submit': {
+		el: HTMLFormElement;
+		event: DelegateEvent<SubmitEvent>;
+		submitter: HTMLElement | null;
+	};
 	'history:popstate': { event: PopStateEvent };
 	'link:click': { el: HTMLAnchorElement; event: DelegateEvent<MouseEvent> };
 	'link:self': undefined;
 	'link:anchor': { hash: string };
 	'link:newtab': { href: string };
+	'network:offline': undefined;
+	'network:online': undefined;
 	'page:load': { page?: PageData; cache?: boolean; options: FetchOptions };
 	'page:view': { url: string; title: string };
+	'prefetch:start': { url: string; el?: Element };
+	'prefetch:end': { url: string; el?: Element; page?: PageData };
+	'scroll:resolve': { hash: string };
 	'scroll:top': { options: ScrollIntoViewOptions };
-	'scroll:anchor': { hash: string; options: ScrollIntoViewOptions };
+	'scroll:anchor': { hash: string; anchor: Element | null; options: ScrollIntoViewOptions };
+	'scroll:restore': { position: ScrollPosition };
+	'scroll:animate': {
+		container: Element | Window;
+		top: number;
+		left: number;
+		duration: number;
+		easing: (progress: number) => number;
+	};
 	'visit:start': undefined;
 	'visit:transition': undefined;
 	'visit:abort': undefined;
+	'visit:error': { error: FetchError | Error };
 	'visit:end': undefined;
 }
 
 export interface HookReturnValues {
+	'content:head': Promise<HeadUpdate>;
 	'content:scroll': Promise<boolean> | boolean;
 	'fetch:request': Promise<Response>;
 	'page:load': Promise<PageData>;
+	'scroll:resolve': Element | null;
 	'scroll:top': boolean;
 	'scroll:anchor': boolean;
+	'scroll:restore': boolean;
+	'scroll:animate': Promise<void>;
 }
 
 export type HookArguments<T extends HookName> = HookDefinitions[T];
@@ -144,8 +184,15 @@ export class Hooks {
 		'animation:in:await',
 		'animation:in:end',
 		'animation:skip',
+		'animation:native:ready',
+		'animation:native:finished',
 		'cache:clear',
 		'cache:set',
+		'cache:evict',
+		'cache:revalidated',
+		'content:announce',
+		'content:attributes',
+		'content:head',
 		'content:replace',
 		'content:scroll',
 		'enable',
@@ -153,18 +200,28 @@ export class Hooks {
 		'fetch:request',
 		'fetch:error',
 		'fetch:timeout',
+		'fetch:retry',
+		'form:submit',
 		'history:popstate',
 		'link:click',
 		'link:self',
 		'link:anchor',
 		'link:newtab',
+		'network:offline',
+		'network:online',
 		'page:load',
 		'page:view',
+		'prefetch:start',
+		'prefetch:end',
+		'scroll:resolve',
 		'scroll:top',
 		'scroll:anchor',
+		'scroll:restore',
+		'scroll:animate',
 		'visit:start',
 		'visit:transition',
 		'visit:abort',
+		'visit:error',
 		'visit:end'
 	];
 
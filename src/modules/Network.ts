@@ -0,0 +1,79 @@
+import type Swup from '../Swup.js';
+import { FetchError } from './fetchPage.js';
+import { Visit } from './Visit.js';
+
+/** Check if an error was caused by a lost connection. */
+export function isOfflineError(error: unknown): boolean {
+	return error instanceof FetchError && error.offline;
+}
+
+/**
+ * Network status observer.
+ *
+ * Lets plugins know when the connection is lost or restored and retries
+ * visits that failed while offline once the connection is back.
+ */
+export class Network {
+	/** Swup instance this observer belongs to */
+	protected swup: Swup;
+
+	/** Visit that failed while offline, to be retried once back online */
+	protected pending?: Visit;
+
+	constructor(swup: Swup) {
+		this.swup = swup;
+		this.handleOnline = this.handleOnline.bind(this);
+		this.handleOffline = this.handleOffline.bind(this);
+	}
+
+	/** Whether the browser is currently connected to the network. */
+	get online(): boolean {
+		return typeof navigator === 'undefined' || navigator.onLine !== false;
+	}
+
+	/** Start listening for changes in network status. */
+	enable(): void {
+		window.addEventListener('online', this.handleOnline);
+		window.addEventListener('offline', this.handleOffline);
+	}
+
+	/** Stop listening for changes in network status. */
+	disable(): void {
+		window.removeEventListener('online', this.handleOnline);
+		window.removeEventListener('offline', this.handleOffline);
+		this.pending = undefined;
+	}
+
+	/** Remember a visit that failed while offline, to retry it once back online. */
+	queue(visit: Visit): void {
+		this.pending = visit;
+	}
+
+	/** Retry the visit that failed while offline, unless another visit has started since. */
+	retry(): void {
+		const visit = this.pending;
+		this.pending = undefined;
+		if (!visit || visit !== this.swup.visit) return;
+
+		this.swup.navigate(visit.to.url + visit.to.hash, {
+			history: 'replace',
+			animate: visit.animation.animate
+		});
+	}
+
+	/**
+	 * Create a visit for network status hooks. The visit that failed while offline is done,
+	 * which would skip all handlers, so this uses a new one for the current page.
+	 */
+	protected createVisit(): Visit {
+		return new Visit(this.swup, { to: this.swup.location.url });
+	}
+
+	protected handleOnline(): void {
+		this.swup.hooks.call('network:online', this.createVisit(), undefined, () => this.retry());
+	}
+
+	protected handleOffline(): void {
+		this.swup.hooks.call('network:offline', this.createVisit(), undefined);
+	}
+}
@@ -0,0 +1,232 @@
+import type { DelegateEvent } from 'delegate-it';
+
+import type Swup from '../Swup.js';
+import { Location } from '../helpers.js';
+import { type DelegateEventUnsubscribe } from '../helpers/delegateEvent.js';
+import { getContextualAttr, queryAll } from '../utils.js';
+import type { PageData } from './fetchPage.js';
+import type { HookUnregister } from './Hooks.js';
+import { Visit } from './Visit.js';
+
+/** Define when and how links are prefetched. */
+export type PrefetchOptions = {
+	/** Prefetch links on hover and touchstart. Default: `true` */
+	hover: boolean;
+	/** Prefetch links on keyboard focus. Default: `true` */
+	focus: boolean;
+	/** Prefetch links once they become visible in the viewport. Default: `false` */
+	visible: boolean;
+	/** Only prefetch links marked with `data-swup-preload`. Default: `false` */
+	optIn: boolean;
+	/** Maximum number of concurrent prefetch requests. Default: `5` */
+	limit: number;
+};
+
+const defaults: PrefetchOptions = {
+	hover: true,
+	focus: true,
+	visible: false,
+	optIn: false,
+	limit: 5
+};
+
+/**
+ * Link prefetcher.
+ *
+ * Loads pages into the cache before they are visited.
+ */
+export class Prefetch {
+	/** Swup instance this prefetcher belongs to */
+	protected swup: Swup;
+
+	/** Pending prefetch requests, indexed by URL */
+	protected pending: Map<string, Promise<PageData | undefined>> = new Map();
+
+	/** Number of prefetch requests currently running */
+	protected active: number = 0;
+
+	/** URLs of prefetched pages that could not be cached, e.g. marked `no-store` */
+	protected uncacheable: Set<string> = new Set();
+
+	/** Prefetch requests waiting for a free slot */
+	protected queue: (() => void)[] = [];
+
+	/** Delegated event subscription handles */
+	protected delegates: DelegateEventUnsubscribe[] = [];
+
+	/** Observer for prefetching links entering the viewport */
+	protected observer?: IntersectionObserver;
+
+	/** Unregister the page view handler for observing new links */
+	protected unregisterPageView?: HookUnregister;
+
+	constructor(swup: Swup) {
+		this.swup = swup;
+		this.onTrigger = this.onTrigger.bind(this);
+	}
+
+	/** Resolved prefetch options, or `false` if prefetching or the cache is disabled. */
+	get options(): PrefetchOptions | false {
+		const { prefetch, cache } = this.swup.options;
+		if (!prefetch || !cache) return false;
+		return prefetch === true ? defaults : { ...defaults, ...prefetch };
+	}
+
+	/** Start listening for links to prefetch. */
+	enable(): void {
+		const { options } = this;
+		if (!options) return;
+
+		const { linkSelector } = this.swup.options;
+		const { delegateEvent } = this.swup;
+		const { onTrigger } = this;
+		if (options.hover) {
+			this.delegates.push(
+				delegateEvent(linkSelector, 'mouseover', onTrigger, { passive: true }),
+				delegateEvent(linkSelector, 'touchstart', onTrigger, {
+					passive: true,
+					capture: true
+				})
+			);
+		}
+		if (options.focus) {
+			this.delegates.push(delegateEvent(linkSelector, 'focusin', onTrigger));
+		}
+		if (options.visible && typeof IntersectionObserver !== 'undefined') {
+			this.observer = new IntersectionObserver((entries) => {
+				entries
+					.filter(({ isIntersecting }) => isIntersecting)
+					.forEach(({ target }) => {
+						this.observer?.unobserve(target);
+						this.prefetchLink(target);
+					});
+			});
+			this.observeLinks();
+			this.unregisterPageView = this.swup.hooks.on('page:view', () => this.observeLinks());
+		}
+	}
+
+	/** Stop listening for links to prefetch. */
+	disable(): void {
+		this.delegates.forEach((delegate) => delegate.destroy());
+		this.delegates = [];
+		this.observer?.disconnect();
+		this.observer = undefined;
+		this.unregisterPageView?.();
+		this.unregisterPageView = undefined;
+	}
+
+	/**
+	 * Prefetch a page and save it to the cache.
+	 * Requests for the same URL are deduplicated and resolve with the same page.
+	 */
+	prefetch(url: string, { el }: { el?: Element } = {}): Promise<PageData | undefined> {
+		const { href, url: path } = Location.fromUrl(url);
+
+		if (this.swup.cache.has(path)) {
+			return Promise.resolve(this.swup.cache.get(path));
+		}
+
+		const pending = this.pending.get(path);
+		if (pending) {
+			return pending;
+		}
+
+		// Prefetched pages are only useful if they end up in the cache
+		if (!this.swup.options.cache || this.uncacheable.has(path)) {
+			return Promise.resolve(undefined);
+		}
+
+		if (!this.swup.network.online) {
+			return Promise.resolve(undefined);
+		}
+
+		if (path === this.swup.location.url || this.swup.shouldIgnoreVisit(href, { el })) {
+			return Promise.resolve(undefined);
+		}
+
+		const request = this.enqueue(() => this.load(path, el)).finally(() => {
+			this.pending.delete(path);
+		});
+		this.pending.set(path, request);
+		return request;
+	}
+
+	/** Check if an element is eligible for prefetching, based on attributes and options. */
+	shouldPrefetch(el: Element): boolean {
+		const { options } = this;
+		if (!options) return false;
+
+		const attr = getContextualAttr(el, 'data-swup-preload');
+		if (attr === 'false') return false;
+		if (options.optIn && !attr) return false;
+		return true;
+	}
+
+	/** Prefetch the URL of a link element, if eligible. */
+	protected prefetchLink(el: Element): void {
+		if (this.shouldPrefetch(el)) {
+			this.prefetch(Location.fromElement(el).href, { el });
+		}
+	}
+
+	protected onTrigger(event: DelegateEvent<Event>): void {
+		this.prefetchLink(event.delegateTarget);
+	}
+
+	/** Observe all links on the page for entering the viewport. */
+	protected observeLinks(): void {
+		const { observer } = this;
+		if (!observer) return;
+
+		observer.disconnect();
+		queryAll(this.swup.options.linkSelector)
+			.filter((el) => this.shouldPrefetch(el))
+			.forEach((el) => observer.observe(el));
+	}
+
+	/** Run a request once the number of active requests is below the limit. */
+	protected enqueue<T>(request: () => Promise<T>): Promise<T> {
+		const limit = (this.options && this.options.limit) || Infinity;
+		return new Promise<void>((resolve) => {
+			if (this.active < limit) {
+				this.active++;
+				resolve();
+			} else {
+				// Slot is handed over by the finishing request, keeping the active count
+				this.queue.push(resolve);
+			}
+		})
+			.then(request)
+			.finally(() => {
+				const next = this.queue.shift();
+				if (next) {
+					next();
+				} else {
+					this.active--;
+				}
+			});
+	}
+
+	/**
+	 * Fetch a page, letting plugins know about it.
+	 * Uses a visit of its own, to not depend on the cache settings of the current visit.
+	 */
+	protected async load(url: string, el?: Element): Promise<PageData | undefined> {
+		const visit = new Visit(this.swup, { to: url, el });
+		await this.swup.hooks.call('prefetch:start', visit, { url, el });
+
+		let page: PageData | undefined;
+		try {
+			page = await this.swup.fetchPage(url, { visit });
+			if (!this.swup.cache.has(url)) {
+				this.uncacheable.add(url);
+			}
+		} catch (error) {
+			this.swup.log(`Error prefetching ${url}`, error);
+		}
+
+		await this.swup.hooks.call('prefetch:end', visit, { url, el, page });
+		return page;
+	}
+}
@@ -1,6 +1,9 @@
 import type Swup from '../Swup.js';
 import type { Options } from '../Swup.js';
 import type { HistoryAction, HistoryDirection } from './navigate.js';
+import { prefersReducedMotion } from '../utils.js';
+import type { ScrollPosition } from '../helpers/scrollPosition.js';
+import { matchRoute, type RouteMatch, type RouteParams } from './routes.js';
 
 /** See below for the class Visit {} definition */
 // export interface Visit {}
@@ -10,6 +13,10 @@ export interface VisitFrom {
 	url: string;
 	/** The hash of the previous page */
 	hash?: string;
+	/** Params matched from the previous URL by a transition rule */
+	params?: RouteParams;
+	/** Named route matching the previous URL */
+	route?: RouteMatch;
 }
 
 export interface VisitTo {
@@ -17,6 +24,10 @@ export interface VisitTo {
 	url: string;
 	/** The hash of the next page */
 	hash?: string;
+	/** Params matched from the next URL by a transition rule */
+	params?: RouteParams;
+	/** Named route matching the next URL, updated after redirects */
+	route?: RouteMatch;
 	/** The HTML content of the next page */
 	html?: string;
 	/** The parsed document of the next page, available during visit */
@@ -36,6 +47,8 @@ export interface VisitAnimation {
 	scope: 'html' | 'containers' | string[];
 	/** Selector for detecting animation timing. Default: `[class*="transition-"]` */
 	selector: Options['animationSelector'];
+	/** Whether the user prefers reduced motion, unless ignored by the `reducedMotion` option. */
+	reduced: boolean;
 }
 
 export interface VisitScroll {
@@ -43,6 +56,10 @@ export interface VisitScroll {
 	reset: boolean;
 	/** Anchor element to scroll to on the next page. */
 	target?: string | false;
+	/** Scroll position to restore on history visits. */
+	position?: ScrollPosition;
+	/** Element resolved from the scroll target or hash, once scrolled. */
+	anchor?: Element | null;
 }
 
 export interface VisitTrigger {
@@ -57,6 +74,8 @@ export interface VisitCache {
 	read: boolean;
 	/** Whether this visit will save the loaded page in cache. */
 	write: boolean;
+	/** Whether this visit will render a cached page immediately and refresh it in the background. */
+	revalidate: boolean;
 }
 
 export interface VisitHistory {
@@ -122,21 +141,26 @@ export class Visit {
 
 		this.id = Math.random();
 		this.state = VisitState.CREATED;
-		this.from = { url: from ?? swup.location.url, hash: swup.location.hash };
-		this.to = { url: to, hash };
+		const { routes } = swup.options;
+		const fromUrl = from ?? swup.location.url;
+		this.from = { url: fromUrl, hash: swup.location.hash, route: matchRoute(routes, fromUrl) };
+		this.to = { url: to, hash, route: matchRoute(routes, to) };
 		this.containers = swup.options.containers;
+		const reduced = swup.options.reducedMotion !== 'ignore' && prefersReducedMotion();
 		this.animation = {
-			animate: true,
+			animate: !(reduced && swup.options.reducedMotion === 'disable'),
 			wait: false,
 			name: undefined,
 			native: swup.options.native,
 			scope: swup.options.animationScope,
-			selector: swup.options.animationSelector
+			selector: swup.options.animationSelector,
+			reduced
 		};
 		this.trigger = { el, event };
 		this.cache = {
-			read: swup.options.cache,
-			write: swup.options.cache
+			read: !!swup.options.cache,
+			write: !!swup.options.cache,
+			revalidate: swup.options.cache === 'stale-while-revalidate'
 		};
 		this.history = {
 			action: 'push',
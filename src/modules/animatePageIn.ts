@@ -16,7 +16,7 @@ export const animatePageIn = async function (this: Swup, visit: Visit) {
 		{ skip: false },
 		(visit, { skip }) => {
 			if (skip) return;
-			return this.awaitAnimations({ selector: visit.animation.selector });
+			return this.awaitVisitAnimations(visit);
 		}
 	);
 
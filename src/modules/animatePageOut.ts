@@ -8,11 +8,15 @@ import type { Visit } from './Visit.js';
 export const animatePageOut = async function (this: Swup, visit: Visit) {
 	await this.hooks.call('animation:out:start', visit, undefined, () => {
 		this.classes.add('is-changing', 'is-animating', 'is-leaving');
+		this.classes.addContainerAnimations();
+		if (visit.animation.reduced) {
+			this.classes.add('is-reduced-motion');
+		}
 	});
 
 	await this.hooks.call('animation:out:await', visit, { skip: false }, (visit, { skip }) => {
 		if (skip) return;
-		return this.awaitAnimations({ selector: visit.animation.selector });
+		return this.awaitVisitAnimations(visit);
 	});
 
 	await this.hooks.call('animation:out:end', visit, undefined);
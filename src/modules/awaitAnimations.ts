@@ -1,6 +1,7 @@
 import { queryAll } from '../utils.js';
 import type Swup from '../Swup.js';
 import type { Options } from '../Swup.js';
+import type { Visit } from './Visit.js';
 
 const TRANSITION = 'transition';
 const ANIMATION = 'animation';
@@ -8,22 +9,32 @@ const ANIMATION = 'animation';
 type AnimationType = typeof TRANSITION | typeof ANIMATION;
 type AnimationEndEvent = `${AnimationType}end`;
 type AnimationProperty = 'Delay' | 'Duration';
-type AnimationStyleKey = `${AnimationType}${AnimationProperty}` | 'transitionProperty';
+type AnimationStyleKey =
+	| `${AnimationType}${AnimationProperty}`
+	| 'transitionProperty'
+	| 'animationIterationCount';
 
 export type AnimationDirection = 'in' | 'out';
 
+/** Maximum time to wait for animations if users prefer reduced motion and animations are shortened. */
+const REDUCED_MOTION_TIMEOUT = 200;
+
 /**
  * Return a Promise that resolves when all CSS animations and transitions
  * are done on the page. Filters by selector or takes elements directly.
+ * Animations started using the Web Animations API are awaited as well.
  */
 export async function awaitAnimations(
 	this: Swup,
 	{
 		selector,
-		elements
+		elements,
+		timeout = this.options.animationTimeout
 	}: {
 		selector: Options['animationSelector'];
 		elements?: NodeListOf<HTMLElement> | HTMLElement[];
+		/** Maximum time to wait in milliseconds. Defaults to the `animationTimeout` option. */
+		timeout?: number;
 	}
 ): Promise<void> {
 	// Allow usage of swup without animations: { animationSelector: false }
@@ -55,10 +66,82 @@ export async function awaitAnimations(
 		return;
 	}
 
-	await Promise.all(awaitedAnimations);
+	// Never wait longer than the timeout, in case an animation gets stuck
+	const animations = Promise.all(awaitedAnimations);
+	if (!timeout || timeout <= 0) {
+		await animations;
+		return;
+	}
+
+	let timeoutId: ReturnType<typeof setTimeout> | undefined;
+	const expired = new Promise<void>((resolve) => {
+		timeoutId = setTimeout(() => {
+			console.warn(`[swup] Animations did not finish within ${timeout}ms`);
+			resolve();
+		}, timeout);
+	});
+	await Promise.race([animations, expired]);
+	clearTimeout(timeoutId);
+}
+
+/**
+ * Return a Promise that resolves when the animations of a visit are done.
+ * With `animationScope: 'containers'`, each container is awaited on its own, using the
+ * selector from its `data-swup-container-selector` attribute or the visit's selector.
+ */
+export async function awaitVisitAnimations(this: Swup, visit: Visit): Promise<void> {
+	const { selector, scope, reduced } = visit.animation;
+	const shorten = reduced && this.options.reducedMotion === 'shorten';
+	const timeout = shorten ? REDUCED_MOTION_TIMEOUT : undefined;
+	if (scope !== 'containers') {
+		return this.awaitAnimations({ selector, timeout });
+	}
+
+	const containers = visit.containers.flatMap((container) => queryAll(container));
+	await Promise.all(
+		containers.map((container) => {
+			const own = container.getAttribute('data-swup-container-selector') || selector;
+			if (!own) return;
+			const elements = container.matches(own) ? [container] : [];
+			elements.push(...queryAll(own, container));
+			return this.awaitAnimations({ selector: false, elements, timeout });
+		})
+	);
 }
 
 function awaitAnimationsOnElement(element: HTMLElement): Promise<void> | false {
+	const css = awaitCssAnimationsOnElement(element);
+	const web = awaitWebAnimationsOnElement(element);
+	if (!css && !web) {
+		return false;
+	}
+	return Promise.all([css, web]).then(() => {});
+}
+
+/**
+ * Await animations on an element reported by the Web Animations API, including those
+ * started using `element.animate()`. Infinite and paused animations are ignored.
+ */
+function awaitWebAnimationsOnElement(element: HTMLElement): Promise<void> | false {
+	if (typeof element.getAnimations !== 'function') {
+		return false;
+	}
+
+	const animations = element.getAnimations().filter((animation) => {
+		const { iterations } = animation.effect?.getComputedTiming() ?? {};
+		return animation.playState === 'running' && iterations !== Infinity;
+	});
+	if (!animations.length) {
+		return false;
+	}
+
+	// Cancelled animations reject their finished promise: treat them as done
+	return Promise.all(animations.map((animation) => animation.finished.catch(() => {}))).then(
+		() => {}
+	);
+}
+
+function awaitCssAnimationsOnElement(element: HTMLElement): Promise<void> | false {
 	const { type, timeout, propCount } = getTransitionInfo(element);
 
 	// Resolve immediately if no transition defined
@@ -111,8 +194,13 @@ function getTransitionInfo(element: Element) {
 	const transitionDurations = getStyleProperties(styles, `${TRANSITION}Duration`);
 	const transitionTimeout = calculateTimeout(transitionDelays, transitionDurations);
 
+	// Ignore infinite animations: they never end
 	const animationDelays = getStyleProperties(styles, `${ANIMATION}Delay`);
-	const animationDurations = getStyleProperties(styles, `${ANIMATION}Duration`);
+	const animationIterations = getStyleProperties(styles, `${ANIMATION}IterationCount`);
+	const animationDurations = getStyleProperties(styles, `${ANIMATION}Duration`).map(
+		(duration, i) =>
+			animationIterations[i % animationIterations.length] === 'infinite' ? '0s' : duration
+	);
 	const animationTimeout = calculateTimeout(animationDelays, animationDurations);
 
 	const timeout = Math.max(transitionTimeout, animationTimeout);
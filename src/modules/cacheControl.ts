@@ -0,0 +1,120 @@
+import type { CacheData } from './Cache.js';
+
+/** Freshness and validation info of a cached page, as sent by the server. */
+export interface CacheValidation {
+	/** Timestamp after which the page is stale and needs revalidation */
+	expires?: number;
+	/** Entity tag of the page, for revalidating with `If-None-Match` */
+	etag?: string;
+	/** Last modification date of the page, for revalidating with `If-Modified-Since` */
+	lastModified?: string;
+	/** Request headers the response varies by, and their values at the time of the request */
+	vary?: Record<string, string>;
+}
+
+/** Parse a `Cache-Control` header into a map of lowercase directives and their values. */
+export function parseCacheControl(header: string | null): Map<string, string | true> {
+	const directives = new Map<string, string | true>();
+	(header || '').split(',').forEach((directive) => {
+		const [name, ...value] = directive.split('=');
+		if (name.trim()) {
+			directives.set(
+				name.trim().toLowerCase(),
+				value.join('=').trim().replace(/^"|"$/g, '') || true
+			);
+		}
+	});
+	return directives;
+}
+
+/**
+ * Read caching headers of a response.
+ * Returns `false` if the response must not be stored.
+ */
+export function getCacheValidation(
+	response: Response,
+	requestHeaders: Headers,
+	now: number = Date.now()
+): CacheValidation | false {
+	const { headers } = response;
+	const cacheControl = parseCacheControl(headers.get('Cache-Control'));
+	const varyHeader = headers.get('Vary');
+
+	if (cacheControl.has('no-store') || varyHeader?.trim() === '*') {
+		return false;
+	}
+
+	const validation: CacheValidation = {};
+
+	const maxAge = Number(cacheControl.get('max-age'));
+	const expires = Date.parse(headers.get('Expires') ?? '');
+	if (cacheControl.has('no-cache')) {
+		validation.expires = now;
+	} else if (cacheControl.has('max-age') && !isNaN(maxAge)) {
+		validation.expires = now + maxAge * 1000;
+	} else if (!isNaN(expires)) {
+		validation.expires = expires;
+	}
+
+	const etag = headers.get('ETag');
+	if (etag) {
+		validation.etag = etag;
+	}
+	const lastModified = headers.get('Last-Modified');
+	if (lastModified) {
+		validation.lastModified = lastModified;
+	}
+
+	if (varyHeader) {
+		validation.vary = {};
+		varyHeader.split(',').forEach((name) => {
+			name = name.trim().toLowerCase();
+			if (name) {
+				validation.vary![name] = requestHeaders.get(name) ?? '';
+			}
+		});
+	}
+
+	return validation;
+}
+
+/**
+ * Get the updated validation info of a cached page after a `304 Not Modified` response.
+ * Validators missing from the response are kept. Without new freshness info, the page
+ * stays fresh for as long as it did originally.
+ */
+export function getRevalidation(
+	page: CacheData,
+	validation: CacheValidation,
+	now: number = Date.now()
+): CacheValidation & Pick<CacheData, 'created'> {
+	const revalidation = { ...validation, created: now };
+	if (revalidation.expires === undefined && page.expires !== undefined) {
+		revalidation.expires = now + Math.max(0, page.expires - page.created);
+	}
+	return revalidation;
+}
+
+/** Check if a cached page has passed its expiry date as set by the server. */
+export function isStale(page: CacheData, now: number = Date.now()): boolean {
+	return page.expires !== undefined && now >= page.expires;
+}
+
+/** Check if the request headers of a cached page match the ones of a new request. */
+export function matchesVary(page: CacheData, requestHeaders: Headers): boolean {
+	return Object.entries(page.vary ?? {}).every(
+		([name, value]) => (requestHeaders.get(name) ?? '') === value
+	);
+}
+
+/** Get the conditional request headers to revalidate a cached page. */
+export function getConditionalHeaders(page: CacheData): Record<string, string> {
+	const headers: Record<string, string> = {};
+	if (page.etag) {
+		headers['If-None-Match'] = page.etag;
+	}
+	if (page.lastModified) {
+		headers['If-Modified-Since'] = page.lastModified;
+	}
+	return headers;
+}
@@ -0,0 +1,122 @@
+import type Swup from '../Swup.js';
+import type { Visit } from './Visit.js';
+
+/** Define which scripts are executed after replacing content. */
+export type ScriptOptions = {
+	/** Also execute scripts newly added to the head of the incoming page. Default: `false` */
+	head: boolean;
+	/** Maximum time to wait for an external script to load in milliseconds. Default: `5000` */
+	timeout: number;
+};
+
+const defaults: ScriptOptions = {
+	head: false,
+	timeout: 5000
+};
+
+/** Script types run by the browser. Anything else, like JSON data, is left alone. */
+const executableTypes = ['', 'text/javascript', 'application/javascript', 'module'];
+
+/** Find all scripts matching a selector. */
+function queryScripts(
+	selector: string,
+	context: Document | Element = document
+): HTMLScriptElement[] {
+	return Array.from(context.querySelectorAll<HTMLScriptElement>(selector));
+}
+
+/**
+ * Check if a script is meant to be run by the browser.
+ * Skips `nomodule` fallbacks, which modern browsers never run nor report as loaded.
+ */
+function isExecutable(script: HTMLScriptElement): boolean {
+	if (script.hasAttribute('nomodule')) return false;
+	const type = script.getAttribute('type')?.trim().toLowerCase() ?? '';
+	return executableTypes.includes(type);
+}
+
+/** Resolve once an external script has loaded or failed to load, or after a timeout. */
+function waitForScript(script: HTMLScriptElement, timeout: number): Promise<void> {
+	return new Promise((resolve) => {
+		const done = () => {
+			clearTimeout(timeoutId);
+			resolve();
+		};
+		const timeoutId = setTimeout(done, timeout);
+		script.addEventListener('load', done, { once: true });
+		script.addEventListener('error', done, { once: true });
+	});
+}
+
+/** Create a live copy of an inert script, which the browser will run once inserted. */
+function recreateScript(script: HTMLScriptElement): HTMLScriptElement {
+	const element = document.createElement('script');
+	Array.from(script.attributes).forEach(({ name, value }) => element.setAttribute(name, value));
+	element.textContent = script.textContent;
+	// Dynamically inserted scripts are async by default: keep the order of the markup instead
+	element.async = script.hasAttribute('async');
+	return element;
+}
+
+/** Record the external scripts already loaded on the current page. */
+export function getLoadedScripts(): Set<string> {
+	return new Set(queryScripts('script[src]').map((script) => script.src));
+}
+
+/**
+ * Run the scripts inside replaced containers, and optionally new scripts in the head.
+ *
+ * Scripts are run in order of appearance. Scripts kept in place by morphing are skipped,
+ * as are external scripts already loaded unless marked with `data-swup-reload-script`. Scripts marked with `data-swup-ignore-script`
+ * and scripts inside persisted elements are never run.
+ */
+export const executeScripts = async function (this: Swup, visit: Visit): Promise<void> {
+	const { executeScripts } = this.options;
+	if (!executeScripts) return;
+	const options =
+		typeof executeScripts === 'object' ? { ...defaults, ...executeScripts } : defaults;
+
+	const shouldRun = (script: HTMLScriptElement): boolean => {
+		if (!isExecutable(script) || script.hasAttribute('data-swup-ignore-script')) return false;
+		if (this.executedScripts.has(script)) return false;
+		if (script.closest('[data-swup-persist]')) return false;
+		if (script.src && !script.hasAttribute('data-swup-reload-script')) {
+			return !this.loadedScripts.has(script.src);
+		}
+		return true;
+	};
+
+	const run = async (script: HTMLScriptElement, insert: (el: HTMLScriptElement) => void) => {
+		const element = recreateScript(script);
+		this.executedScripts.add(element);
+		const loaded = element.src ? waitForScript(element, options.timeout) : Promise.resolve();
+		insert(element);
+		if (element.src) {
+			this.loadedScripts.add(element.src);
+		}
+		// Wait for ordered external scripts before running the next one
+		if (!element.async) {
+			await loaded;
+		}
+	};
+
+	if (options.head && visit.to.document) {
+		const current = queryScripts('script:not([src])', document.head).map(
+			(script) => script.textContent
+		);
+		const scripts = queryScripts('script', visit.to.document.head)
+			.filter((script) => script.src || !current.includes(script.textContent))
+			.filter(shouldRun);
+		for (const script of scripts) {
+			await run(script, (element) => document.head.appendChild(element));
+		}
+	}
+
+	const scripts = visit.containers
+		.flatMap((selector) => queryScripts(selector))
+		.flatMap((container) => queryScripts('script', container))
+		.filter(shouldRun);
+	for (const script of scripts) {
+		await run(script, (element) => script.replaceWith(element));
+	}
+};
@@ -1,6 +1,8 @@
 import type Swup from '../Swup.js';
 import { Location } from '../helpers.js';
 import type { Visit } from './Visit.js';
+import type { CacheData } from './Cache.js';
+import { getCacheValidation, getConditionalHeaders, getRevalidation } from './cacheControl.js';
 
 /** A page object as used by swup and its cache. */
 export interface PageData {
@@ -18,8 +20,50 @@ export interface FetchOptions extends Omit<RequestInit, 'cache'> {
 	body?: string | FormData | URLSearchParams;
 	/** The request timeout in milliseconds. */
 	timeout?: number;
+	/** Whether and how to retry failed requests. */
+	retry?: Partial<RetryOptions> | false;
 	/** Optional visit object with additional context. @internal */
 	visit?: Visit;
+	/** Stale cached page to revalidate using a conditional request. @internal */
+	revalidate?: CacheData;
+}
+
+/** Define when and how failed requests are retried. */
+export type RetryOptions = {
+	/** Maximum number of attempts, including the first request. Default: `1` (no retries) */
+	attempts: number;
+	/** Delay before the first retry in milliseconds. Default: `300` */
+	delay: number;
+	/** Factor by which the delay grows with each retry. Default: `2` */
+	backoff: number;
+	/** Maximum delay between retries in milliseconds. Default: `5000` */
+	maxDelay: number;
+	/** Status codes to retry. Default: `[408, 429, 502, 503, 504]` */
+	statuses: number[];
+	/** Whether to retry network errors. Default: `true` */
+	networkErrors: boolean;
+	/** Request methods to retry. Only idempotent methods by default. Default: `['GET']` */
+	methods: string[];
+};
+
+const retryDefaults: RetryOptions = {
+	attempts: 1,
+	delay: 300,
+	backoff: 2,
+	maxDelay: 5000,
+	statuses: [408, 429, 502, 503, 504],
+	networkErrors: true,
+	methods: ['GET']
+};
+
+/** A failed attempt at fetching a page. */
+export interface FetchAttempt {
+	/** Number of the attempt, starting at `1` */
+	attempt: number;
+	/** Status code of the response, if any */
+	status?: number;
+	/** Network error thrown, if any */
+	error?: unknown;
 }
 
 export class FetchError extends Error {
@@ -27,21 +71,46 @@ export class FetchError extends Error {
 	status?: number;
 	aborted: boolean;
 	timedOut: boolean;
+	offline: boolean;
+	attempts: FetchAttempt[];
 	constructor(
 		message: string,
-		details: { url: string; status?: number; aborted?: boolean; timedOut?: boolean }
+		details: {
+			url: string;
+			status?: number;
+			aborted?: boolean;
+			timedOut?: boolean;
+			offline?: boolean;
+			attempts?: FetchAttempt[];
+			cause?: unknown;
+		}
 	) {
-		super(message);
+		super(message, { cause: details.cause });
 		this.name = 'FetchError';
 		this.url = details.url;
 		this.status = details.status;
 		this.aborted = details.aborted || false;
 		this.timedOut = details.timedOut || false;
+		this.offline = details.offline || false;
+		this.attempts = details.attempts || [];
 	}
 }
 
+/** A request shared by all callers fetching the same URL at the same time. @internal */
+export interface PendingRequest {
+	/** Resolves with the response, its body and any failed attempts before it */
+	promise: Promise<{ response: Response; html: string; attempts: FetchAttempt[] }>;
+	/** Aborts the request once all callers have given up on it */
+	controller: AbortController;
+	/** Number of callers waiting for the request */
+	subscribers: number;
+	/** Whether the request has finished */
+	settled: boolean;
+}
+
 /**
  * Fetch a page from the server, return it and cache it.
+ * Concurrent requests for the same URL share a single network request.
  */
 export async function fetchPage(
 	this: Swup,
@@ -50,51 +119,86 @@ export async function fetchPage(
 ): Promise<PageData> {
 	url = Location.fromUrl(url).url;
 
-	const { visit = this.visit } = options;
-	const headers = { ...this.options.requestHeaders, ...options.headers };
+	const { visit = this.visit, revalidate, signal } = options;
+	const conditionalHeaders = revalidate ? getConditionalHeaders(revalidate) : {};
+	const headers = { ...this.options.requestHeaders, ...options.headers, ...conditionalHeaders };
 	const timeout = options.timeout ?? this.options.timeout;
-	const controller = new AbortController();
-	const { signal } = controller;
-	options = { ...options, headers, signal };
+	const isSafeMethod = !options.method || options.method === 'GET';
 
-	let timedOut = false;
-	let timeoutId: ReturnType<typeof setTimeout> | null = null;
-	if (timeout && timeout > 0) {
-		timeoutId = setTimeout(() => {
-			timedOut = true;
-			controller.abort('timeout');
-		}, timeout);
+	// Only share simple requests: no body, no conditional headers, and the same request headers
+	const key =
+		isSafeMethod && !options.body && !revalidate
+			? getRequestKey(this.resolveUrl(url), headers)
+			: null;
+
+	let request = key ? this.pendingRequests.get(key) : undefined;
+	if (!request) {
+		const controller = new AbortController();
+		const requestOptions = { ...options, headers, signal: controller.signal };
+		const retry = getRetryOptions(options.retry ?? this.options.retry);
+		request = {
+			controller,
+			subscribers: 0,
+			settled: false,
+			promise: requestWithRetry.call(this, url, requestOptions, visit, retry)
+		};
+		const pending = request;
+		pending.promise
+			.catch(() => {})
+			.finally(() => {
+				pending.settled = true;
+				if (key && this.pendingRequests.get(key) === pending) {
+					this.pendingRequests.delete(key);
+				}
+			});
+		if (key) {
+			this.pendingRequests.set(key, pending);
+		}
 	}
 
-	// Allow hooking before this and returning a custom response-like object (e.g. custom fetch implementation)
+	let timedOut = false;
 	let response: Response;
+	let html: string;
+	let attempts: FetchAttempt[];
 	try {
-		response = await this.hooks.call(
-			'fetch:request',
-			visit,
-			{ url, options },
-			(visit, { url, options }) => fetch(url, options)
-		);
-		if (timeoutId) {
-			clearTimeout(timeoutId);
-		}
+		({ response, html, attempts } = await subscribeToRequest(request, {
+			timeout,
+			signal,
+			onTimeout: () => (timedOut = true)
+		}));
 	} catch (error) {
 		if (timedOut) {
 			this.hooks.call('fetch:timeout', visit, { url });
 			throw new FetchError(`Request timed out: ${url}`, { url, timedOut });
 		}
-		if ((error as Error)?.name === 'AbortError' || signal.aborted) {
+		if ((error as Error)?.name === 'AbortError' || signal?.aborted) {
 			throw new FetchError(`Request aborted: ${url}`, { url, aborted: true });
 		}
 		throw error;
 	}
 
 	const { status, url: responseUrl } = response;
-	const html = await response.text();
 
-	if (status === 500) {
+	// Not modified: the stale cached page is still valid
+	if (status === 304 && revalidate) {
+		const validation = getCacheValidation(response, new Headers(headers));
+		if (validation && visit.cache.write && isSafeMethod) {
+			this.cache.update(revalidate.url, getRevalidation(revalidate, validation));
+		}
+		return revalidate;
+	}
+
+	// Error response: render it as a normal page or throw, depending on error policy
+	if (status >= 400) {
 		this.hooks.call('fetch:error', visit, { status, response, url: responseUrl });
-		throw new FetchError(`Server error: ${responseUrl}`, { status, url: responseUrl });
+		if (this.getErrorPolicy(status) !== 'render') {
+			const type = status >= 500 ? 'Server' : 'Client';
+			throw new FetchError(`${type} error: ${responseUrl}`, {
+				status,
+				url: responseUrl,
+				attempts
+			});
+		}
 	}
 
 	if (!html) {
@@ -105,10 +209,194 @@ export async function fetchPage(
 	const { url: finalUrl } = Location.fromUrl(responseUrl);
 	const page = { url: finalUrl, html };
 
-	// Write to cache for safe methods and non-redirects
-	if (visit.cache.write && (!options.method || options.method === 'GET') && url === finalUrl) {
-		this.cache.set(page.url, page);
+	// Write to cache for safe methods and successful non-redirects, unless the server forbids it
+	if (visit.cache.write && isSafeMethod && url === finalUrl && status < 400) {
+		const validation = getCacheValidation(response, new Headers(headers));
+		if (validation) {
+			this.cache.set(page.url, { ...page, ...validation });
+		}
 	}
 
 	return page;
 }
+
+/** Identify a request by its URL and normalized headers, to share it between identical calls. */
+function getRequestKey(url: string, headers: HeadersInit): string {
+	const normalized = Array.from(new Headers(headers).entries()).sort(([a], [b]) =>
+		a.localeCompare(b)
+	);
+	return `${url} ${JSON.stringify(normalized)}`;
+}
+
+/** Merge retry options with their defaults. */
+function getRetryOptions(retry: Partial<RetryOptions> | false | undefined): RetryOptions {
+	return retry ? { ...retryDefaults, ...retry } : retryDefaults;
+}
+
+/**
+ * Send a request, retrying with exponential backoff on network errors and retryable statuses.
+ */
+async function requestWithRetry(
+	this: Swup,
+	url: string,
+	options: FetchOptions & { signal: AbortSignal },
+	visit: Visit,
+	retry: RetryOptions
+): Promise<{ response: Response; html: string; attempts: FetchAttempt[] }> {
+	const { signal } = options;
+	const method = (options.method || 'GET').toUpperCase();
+	const maxAttempts = retry.methods.includes(method) ? Math.max(1, retry.attempts) : 1;
+	const attempts: FetchAttempt[] = [];
+
+	for (let attempt = 1; ; attempt++) {
+		// Hooks skip the handlers of finished visits: keep requesting with a visit of our own
+		if (visit.done) {
+			visit = this.createVisit({ to: url });
+		}
+
+		let response: Response | undefined;
+		try {
+			// Allow hooking before this and returning a custom response-like object (e.g. custom fetch implementation)
+			response = await this.hooks.call(
+				'fetch:request',
+				visit,
+				{ url, options },
+				(visit, { url, options }) => fetch(url, options)
+			);
+		} catch (error) {
+			if (signal.aborted) {
+				throw error;
+			}
+			attempts.push({ attempt, error });
+			if (retry.networkErrors && attempt < maxAttempts) {
+				await waitForRetry.call(this, url, visit, retry, attempts, signal);
+				continue;
+			}
+			// Only offline if the browser says so, not on CORS errors or unreachable servers
+			const offline = !this.network.online;
+			throw new FetchError(`Network error: ${url}`, { url, attempts, offline, cause: error });
+		}
+
+		// A custom handler did not return a response
+		if (!response) {
+			throw new FetchError(`No response: ${url}`, { url, attempts });
+		}
+
+		const { status } = response;
+		if (retry.statuses.includes(status) && attempt < maxAttempts) {
+			attempts.push({ attempt, status });
+			const retryAfter = Number(response.headers?.get('Retry-After')) * 1000;
+			await waitForRetry.call(this, url, visit, retry, attempts, signal, retryAfter);
+			continue;
+		}
+
+		if (attempts.length && retry.statuses.includes(status)) {
+			attempts.push({ attempt, status });
+		}
+
+		const html = await response.text();
+		return { response, html, attempts };
+	}
+}
+
+/** Wait before retrying a request, letting plugins know about it. */
+async function waitForRetry(
+	this: Swup,
+	url: string,
+	visit: Visit,
+	retry: RetryOptions,
+	attempts: FetchAttempt[],
+	signal: AbortSignal,
+	retryAfter: number = 0
+): Promise<void> {
+	const { attempt, status, error } = attempts[attempts.length - 1];
+	const backoff = retry.delay * Math.pow(retry.backoff, attempt - 1);
+	const delay = Math.min(Math.max(backoff, retryAfter || 0), retry.maxDelay);
+
+	await this.hooks.call('fetch:retry', visit, {
+		url,
+		attempt: attempt + 1,
+		delay,
+		status,
+		error
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timeoutId);
+			reject(new DOMException('Request aborted', 'AbortError'));
+		};
+		const timeoutId = setTimeout(() => {
+			signal.removeEventListener('abort', onAbort);
+			resolve();
+		}, delay);
+		if (signal.aborted) {
+			onAbort();
+		} else {
+			signal.addEventListener('abort', onAbort, { once: true });
+		}
+	});
+}
+
+/**
+ * Wait for a shared request, with a timeout and abort signal for this caller only.
+ * The request itself is aborted once no callers are waiting for it anymore.
+ */
+function subscribeToRequest(
+	request: PendingRequest,
+	{
+		timeout,
+		signal,
+		onTimeout
+	}: { timeout?: number; signal?: AbortSignal | null; onTimeout: () => void }
+): Promise<{ response: Response; html: string; attempts: FetchAttempt[] }> {
+	request.subscribers++;
+
+	return new Promise((resolve, reject) => {
+		let timeoutId: ReturnType<typeof setTimeout> | null = null;
+		let done = false;
+
+		const unsubscribe = () => {
+			if (done) return;
+			done = true;
+			if (timeoutId) clearTimeout(timeoutId);
+			signal?.removeEventListener('abort', onAbort);
+			request.subscribers--;
+			if (request.subscribers <= 0 && !request.settled) {
+				request.controller.abort();
+			}
+		};
+
+		const onAbort = () => {
+			unsubscribe();
+			reject(new DOMException('Request aborted', 'AbortError'));
+		};
+
+		if (signal?.aborted) {
+			onAbort();
+			return;
+		}
+		signal?.addEventListener('abort', onAbort);
+
+		if (timeout && timeout > 0) {
+			timeoutId = setTimeout(() => {
+				onTimeout();
+				unsubscribe();
+				reject(new DOMException('Request timed out', 'TimeoutError'));
+			}, timeout);
+		}
+
+		request.promise.then(
+			(result) => {
+				if (done) return;
+				unsubscribe();
+				resolve(result);
+			},
+			(error) => {
+				if (done) return;
+				unsubscribe();
+				reject(error);
+			}
+		);
+	});
+}
@@ -1,23 +1,62 @@
-import { query } from '../utils.js';
+import type Swup from '../Swup.js';
+import { query, queryAll, safeDecodeURIComponent } from '../utils.js';
+import { findTextFragment, highlightTextFragment } from './textFragment.js';
 
 /**
- * Find the anchor element for a given hash.
- *
- * @param hash Hash with or without leading '#'
- * @returns The element, if found, or null.
+ * Resolve a hash to an element. Receives the hash without leading '#'.
+ * Return `null` or `undefined` to let the next resolver try.
+ */
+export type AnchorResolver = (hash: string) => Element | null | undefined;
+
+/** Delimiter separating the fragment from the fragment directive, e.g. `#id:~:text=foo` */
+const fragmentDirectiveDelimiter = ':~:';
+
+/** Turn heading text into a hash, e.g. `Getting started` into `getting-started` */
+const slugify = (text: string) =>
+	text
+		.trim()
+		.toLocaleLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, '-')
+		.replace(/^-+|-+$/g, '');
+
+/** Get the fragment directive of a hash, e.g. `text=foo` for `id:~:text=foo` */
+const getFragmentDirective = (hash: string): string => {
+	const index = hash.indexOf(fragmentDirectiveDelimiter);
+	return index === -1 ? '' : hash.substring(index + fragmentDirectiveDelimiter.length);
+};
+
+/**
+ * Resolve text fragments like `#:~:text=start,end` to the element containing the matched text.
  *
- * @see https://html.spec.whatwg.org/#find-a-potential-indicated-element
+ * @see https://wicg.github.io/scroll-to-text-fragment/
  */
-export const getAnchorElement = (hash?: string): Element | null => {
-	if (hash && hash.charAt(0) === '#') {
-		hash = hash.substring(1);
-	}
+export const resolveTextFragment: AnchorResolver = (hash) => {
+	const directive = getFragmentDirective(hash);
+	if (!directive) return null;
 
-	if (!hash) {
-		return null;
-	}
+	const ranges = findTextFragment(directive);
+	if (!ranges.length) return null;
+
+	const { startContainer } = ranges[0];
+	return startContainer instanceof Element ? startContainer : startContainer.parentElement;
+};
+
+/**
+ * Highlight the text matched by the text fragment of a hash, where supported.
+ * Removes the previous highlight if the hash has no matching text fragment.
+ */
+export const highlightAnchorText = (hash: string): void => {
+	const directive = getFragmentDirective(hash);
+	highlightTextFragment(directive ? findTextFragment(directive) : []);
+};
 
-	const decoded = decodeURIComponent(hash);
+/**
+ * Resolve a hash to an element by id or named anchor.
+ *
+ * @see https://html.spec.whatwg.org/#find-a-potential-indicated-element
+ */
+export const resolveId: AnchorResolver = (hash) => {
+	const decoded = safeDecodeURIComponent(hash);
 	let element =
 		document.getElementById(hash) ||
 		document.getElementById(decoded) ||
@@ -30,3 +69,43 @@ export const getAnchorElement = (hash?: string): Element | null => {
 
 	return element;
 };
+
+/** Resolve a hash to a heading without id whose slugified text matches it. */
+export const resolveHeading: AnchorResolver = (hash) => {
+	const slug = slugify(safeDecodeURIComponent(hash));
+	if (!slug) return null;
+	return queryAll('h1, h2, h3, h4, h5, h6').find(
+		(heading) => !heading.id && slugify(heading.textContent ?? '') === slug
+	);
+};
+
+/**
+ * Find the anchor element for a given hash.
+ *
+ * Tries resolvers from the `anchorResolvers` option first, then text fragments,
+ * ids and named anchors, and finally headings without ids.
+ *
+ * @param hash Hash with or without leading '#'
+ * @returns The element, if found, or null.
+ */
+export const getAnchorElement = function (this: Swup, hash?: string): Element | null {
+	if (hash && hash.charAt(0) === '#') {
+		hash = hash.substring(1);
+	}
+
+	if (!hash) {
+		return null;
+	}
+
+	for (const resolve of this.options.anchorResolvers) {
+		const element = resolve(hash);
+		if (element) return element;
+	}
+
+	const [fragment] = hash.split(fragmentDirectiveDelimiter);
+	return (
+		resolveTextFragment(hash) ||
+		(fragment ? resolveId(fragment) || resolveHeading(fragment) : null) ||
+		null
+	);
+};
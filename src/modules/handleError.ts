@@ -0,0 +1,87 @@
+import type Swup from '../Swup.js';
+import { FetchError } from './fetchPage.js';
+import type { Visit } from './Visit.js';
+import { isOfflineError } from './Network.js';
+
+/**
+ * How to handle an error response:
+ * - `render`: render the error page sent by the server
+ * - `template`: render the error template found on the current page
+ * - `reload`: load the requested page in the browser
+ */
+export type ErrorPolicy = 'render' | 'template' | 'reload';
+
+/**
+ * Find the error policy for a status code.
+ * Looks for an exact match first, then for a range like `4xx`. Defaults to `render`.
+ */
+export function getErrorPolicy(this: Swup, status: number): ErrorPolicy {
+	const { errorPolicy } = this.options;
+	const range = `${String(status).charAt(0)}xx`;
+	return errorPolicy[status] ?? errorPolicy[range] ?? 'render';
+}
+
+/**
+ * Handle a failed visit: render the error or offline template if configured, or fall back
+ * to loading the requested page in the browser.
+ */
+export async function handleError(this: Swup, visit: Visit, error: unknown): Promise<void> {
+	const status = error instanceof FetchError ? error.status : undefined;
+	if (status && this.getErrorPolicy(status) === 'template') {
+		try {
+			if (await this.renderErrorTemplate(visit)) return;
+		} catch (renderError) {
+			console.error(renderError);
+		}
+	}
+
+	// Lost connection: render the offline template and retry once back online
+	if (isOfflineError(error)) {
+		try {
+			if (await this.renderErrorTemplate(visit, this.options.offlineTemplate)) {
+				this.network.queue(visit);
+				return;
+			}
+		} catch (renderError) {
+			console.error(renderError);
+		}
+	}
+
+	// Remove current history entry, then load requested url in browser
+	this.options.skipPopStateHandling = () => {
+		window.location.assign(visit.to.url + visit.to.hash);
+		return true;
+	};
+
+	// Go back to the actual page we're still at
+	window.history.back();
+}
+
+/**
+ * Render the error template into the content containers.
+ * @param selector Selector of the template to render. Defaults to the `errorTemplate` option.
+ * @returns Whether a template was found and rendered.
+ */
+export async function renderErrorTemplate(
+	this: Swup,
+	visit: Visit,
+	selector: string | false = this.options.errorTemplate
+): Promise<boolean> {
+	const template = selector ? document.querySelector(selector) : null;
+	if (!template) {
+		return false;
+	}
+
+	const html = template.innerHTML;
+	visit.to.html = html;
+	visit.to.document = new DOMParser().parseFromString(html, 'text/html');
+
+	await this.renderPage(visit, { url: visit.to.url, html });
+	if (visit.animation.animate) {
+		await this.animatePageIn(visit);
+	}
+	this.classes.clear();
+	this.navigating = false;
+
+	return true;
+}
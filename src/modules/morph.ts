@@ -0,0 +1,98 @@
+/**
+ * Get the key identifying an element across documents: its id or `data-swup-key` attribute.
+ */
+function getKey(node: Node): string | null {
+	if (!(node instanceof Element)) return null;
+	return node.getAttribute('data-swup-key') || node.id || null;
+}
+
+/** Check if two nodes can be morphed into each other, or need to be replaced. */
+function isCompatible(from: Node, to: Node): boolean {
+	return from.nodeType === to.nodeType && from.nodeName === to.nodeName;
+}
+
+/** Copy the attributes of the incoming element onto the current one. */
+function morphAttributes(from: Element, to: Element): void {
+	Array.from(from.attributes)
+		.filter(({ name }) => !to.hasAttribute(name))
+		.forEach(({ name }) => from.removeAttribute(name));
+	Array.from(to.attributes)
+		.filter(({ name, value }) => from.getAttribute(name) !== value)
+		.forEach(({ name, value }) => from.setAttribute(name, value));
+}
+
+/** Patch a single node to match the incoming node. */
+function morphNode(from: Node, to: Node): void {
+	if (from.isEqualNode(to)) return;
+
+	if (from instanceof Element && to instanceof Element) {
+		// Persisted elements are kept as they are
+		const persist = from.getAttribute('data-swup-persist');
+		if (persist && persist === to.getAttribute('data-swup-persist')) return;
+
+		// Scripts are not patched: replace them to have them run again if needed
+		if (from.localName === 'script') {
+			from.replaceWith(to.cloneNode(true));
+			return;
+		}
+
+		morphAttributes(from, to);
+		morphChildren(from, to);
+		return;
+	}
+
+	if (from.nodeValue !== to.nodeValue) {
+		from.nodeValue = to.nodeValue;
+	}
+}
+
+/**
+ * Patch the children of an element to match the incoming element.
+ * Keyed children are matched by key, others by position.
+ */
+function morphChildren(from: Element, to: Element): void {
+	const keyed = new Map<string, Node>();
+	from.childNodes.forEach((child) => {
+		const key = getKey(child);
+		if (key) keyed.set(key, child);
+	});
+
+	let current: Node | null = from.firstChild;
+	Array.from(to.childNodes).forEach((incoming) => {
+		const key = getKey(incoming);
+		const candidate = key ? keyed.get(key) : current && !getKey(current) ? current : null;
+
+		if (candidate && isCompatible(candidate, incoming)) {
+			if (key) keyed.delete(key);
+			if (candidate !== current) {
+				from.insertBefore(candidate, current);
+			}
+			current = candidate.nextSibling;
+			morphNode(candidate, incoming);
+		} else {
+			from.insertBefore(incoming.cloneNode(true), current);
+		}
+	});
+
+	// Remove anything left over
+	while (current) {
+		const next: Node | null = current.nextSibling;
+		from.removeChild(current);
+		current = next;
+	}
+}
+
+/**
+ * Patch an element to match an incoming element, changing only what's different.
+ *
+ * Unlike replacing the element, this keeps focus, input values, scroll positions and
+ * the state of media and widgets in unchanged parts of the tree.
+ */
+export function morph(from: Element, to: Element): void {
+	if (!isCompatible(from, to)) {
+		from.replaceWith(to.cloneNode(true));
+		return;
+	}
+	morphAttributes(from, to);
+	morphChildren(from, to);
+}
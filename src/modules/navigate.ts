@@ -1,13 +1,18 @@
 import type Swup from '../Swup.js';
-import { FetchError, type FetchOptions, type PageData } from './fetchPage.js';
+import { FetchError, type FetchOptions } from './fetchPage.js';
+import type { CacheData } from './Cache.js';
 import { type VisitInitOptions, type Visit, VisitState } from './Visit.js';
 import { createHistoryRecord, updateHistoryRecord, Location, classify } from '../helpers.js';
 import { getContextualAttr } from '../utils.js';
+import { isStale, matchesVary } from './cacheControl.js';
+import { isOfflineError } from './Network.js';
+import { matchTransitionRule } from './transitionRules.js';
+import { buildRouteUrl, type RouteLocation } from './routes.js';
 
 export type HistoryAction = 'push' | 'replace';
 export type HistoryDirection = 'forwards' | 'backwards';
 export type NavigationToSelfAction = 'scroll' | 'navigate';
-export type CacheControl = Partial<{ read: boolean; write: boolean }>;
+export type CacheControl = Partial<{ read: boolean; write: boolean; revalidate: boolean }>;
 
 /** Define how to navigate to a page. */
 type NavigationOptions = {
@@ -17,24 +22,30 @@ type NavigationOptions = {
 	animation?: string;
 	/** History action to perform: `push` for creating a new history entry, `replace` for replacing the current entry. Default: `push` */
 	history?: HistoryAction;
-	/** Whether this visit should read from or write to the cache. */
-	cache?: CacheControl;
+	/** Whether this visit should read from or write to the cache, or refresh cached pages in the background. */
+	cache?: CacheControl | boolean | 'stale-while-revalidate';
+	/** Selectors of the containers to replace, if not all of them. */
+	containers?: string[];
 	/** Custom metadata associated with this visit. */
 	meta?: Record<string, unknown>;
 };
 
 /**
- * Navigate to a new URL.
- * @param url The URL to navigate to.
+ * Navigate to a new URL, or to a named route like `{ name: 'product', params: { id: 42 } }`.
+ * @param url The URL or named route to navigate to.
  * @param options Options for how to perform this visit.
  * @returns Promise<void>
  */
 export function navigate(
 	this: Swup,
-	url: string,
+	url: string | RouteLocation,
 	options: NavigationOptions & FetchOptions = {},
 	init: Omit<VisitInitOptions, 'to'> = {}
 ) {
+	if (url && typeof url === 'object') {
+		url = buildRouteUrl(this.options.routes, url);
+	}
+
 	if (typeof url !== 'string') {
 		throw new Error(`swup.navigate() requires a URL parameter`);
 	}
@@ -78,6 +89,7 @@ export async function performNavigation(
 			await this.hooks.call('visit:abort', this.visit, undefined);
 			delete this.visit.to.document;
 			this.visit.state = VisitState.ABORTED;
+			this.viewTransition?.skipTransition();
 		}
 	}
 
@@ -87,6 +99,14 @@ export async function performNavigation(
 	const { el } = visit.trigger;
 	options.referrer = options.referrer || this.location.url;
 
+	// Find the first transition rule matching this visit: options and attributes take precedence
+	const match = matchTransitionRule(this.options.transitions, visit.from.url, visit.to.url);
+	const rule = match?.rule ?? {};
+	if (match) {
+		visit.from.params = match.from;
+		visit.to.params = match.to;
+	}
+
 	if (options.animate === false) {
 		visit.animation.animate = false;
 	}
@@ -103,24 +123,52 @@ export async function performNavigation(
 	}
 
 	// Get custom animation name from option or attribute on trigger element
-	const animation = options.animation || getContextualAttr(el, 'data-swup-animation');
+	const animation =
+		options.animation || getContextualAttr(el, 'data-swup-animation') || rule.animation;
 	if (typeof animation === 'string') {
 		visit.animation.name = animation;
 	}
 
+	// Get containers to replace from option or attribute on trigger element
+	const containers =
+		options.containers || getContextualAttr(el, 'data-swup-containers') || rule.containers;
+	if (typeof containers === 'string') {
+		visit.containers = containers
+			.split(',')
+			.map((selector) => selector.trim())
+			.filter(Boolean);
+	} else if (Array.isArray(containers)) {
+		visit.containers = containers.filter(Boolean);
+	}
+
 	// Get custom metadata from option
 	visit.meta = options.meta || {};
 
-	// Sanitize cache option
+	// Get scroll behavior from transition rule, keeping history visits as they are
+	if (rule.scroll !== undefined && !visit.history.popstate) {
+		visit.scroll.reset = rule.scroll;
+	}
+
+	// Sanitize cache option, falling back to the transition rule
+	options.cache = options.cache ?? rule.cache;
 	if (typeof options.cache === 'object') {
 		visit.cache.read = options.cache.read ?? visit.cache.read;
 		visit.cache.write = options.cache.write ?? visit.cache.write;
+		visit.cache.revalidate = options.cache.revalidate ?? visit.cache.revalidate;
+	} else if (options.cache === 'stale-while-revalidate') {
+		visit.cache = { read: true, write: true, revalidate: true };
 	} else if (options.cache !== undefined) {
-		visit.cache = { read: !!options.cache, write: !!options.cache };
+		visit.cache = { read: !!options.cache, write: !!options.cache, revalidate: false };
 	}
 	// Delete this so that window.fetch doesn't mis-interpret it
 	delete options.cache;
 
+	// Never serve form submissions and other unsafe requests from cache
+	if (options.method && options.method !== 'GET') {
+		visit.cache.read = false;
+		visit.cache.revalidate = false;
+	}
+
 	try {
 		await this.hooks.call('visit:start', visit, undefined);
 
@@ -128,10 +176,49 @@ export async function performNavigation(
 
 		// Begin loading page
 		const page = this.hooks.call('page:load', visit, { options }, async (visit, args) => {
-			// Read from cache
-			let cachedPage: PageData | undefined;
+			// Read from cache, ignoring pages requested with different headers
+			let cachedPage: CacheData | undefined;
 			if (visit.cache.read) {
 				cachedPage = this.cache.get(visit.to.url);
+				const headers = new Headers({
+					...this.options.requestHeaders,
+					...args.options.headers
+				});
+				if (cachedPage && !matchesVary(cachedPage, headers)) {
+					cachedPage = undefined;
+				}
+			}
+
+			// Offline: serve cached pages as they are, or fail without sending a request
+			if (!this.network.online) {
+				if (!cachedPage) {
+					throw new FetchError(`Offline: ${visit.to.url}`, {
+						url: visit.to.url,
+						offline: true
+					});
+				}
+				args.page = cachedPage;
+				args.cache = true;
+				return args.page;
+			}
+
+			// Stale-while-revalidate: render cached page immediately, refresh it in the background
+			if (cachedPage && visit.cache.revalidate) {
+				this.revalidatePage(visit, cachedPage, args.options);
+			}
+
+			// Revalidate stale pages with the server: a 304 response counts as cache hit
+			if (cachedPage && isStale(cachedPage) && !visit.cache.revalidate) {
+				const revalidate = cachedPage;
+				try {
+					args.page = await this.fetchPage(visit.to.url, { ...args.options, revalidate });
+				} catch (error) {
+					// Lost connection: the stale page is better than nothing
+					if (!isOfflineError(error)) throw error;
+					args.page = revalidate;
+				}
+				args.cache = args.page === revalidate;
+				return args.page;
 			}
 
 			args.page = cachedPage || (await this.fetchPage(visit.to.url, args.options));
@@ -142,19 +229,32 @@ export async function performNavigation(
 
 		/**
 		 * When the page is loaded: mark the visit as loaded and save
-		 * the raw html and a parsed document of the received page in the visit object
+		 * the raw html and a parsed document of the received page in the visit object.
+		 * Loading errors are handled below, where the page is awaited.
 		 */
-		page.then(({ html }) => {
-			visit.advance(VisitState.LOADED);
-			visit.to.html = html;
-			visit.to.document = new DOMParser().parseFromString(html, 'text/html');
-		});
+		page.then(
+			({ html }) => {
+				visit.advance(VisitState.LOADED);
+				visit.to.html = html;
+				visit.to.document = new DOMParser().parseFromString(html, 'text/html');
+			},
+			() => {}
+		);
 
 		// Create/update history record if this is not a popstate call or leads to the same URL
 		const newUrl = visit.to.url + visit.to.hash;
 		if (!visit.history.popstate) {
+			// Remember the scroll position of the page we're leaving
+			// History visits have already left it: their position is saved while scrolling
+			if (this.options.restoreScroll) {
+				this.saveScrollPosition();
+			}
 			if (visit.history.action === 'replace' || visit.to.url === this.location.url) {
-				updateHistoryRecord(newUrl);
+				// The record now belongs to the new page: forget the old position
+				updateHistoryRecord(
+					newUrl,
+					this.options.restoreScroll ? { scroll: undefined } : {}
+				);
 			} else {
 				this.currentHistoryIndex++;
 				createHistoryRecord(newUrl, { index: this.currentHistoryIndex });
@@ -190,10 +290,8 @@ export async function performNavigation(
 			// Animate page out, render page, animate page in
 			visit.advance(VisitState.LEAVING);
 			await this.animatePageOut(visit);
-			if (visit.animation.native && document.startViewTransition) {
-				await document.startViewTransition(
-					async () => await this.renderPage(visit, await page)
-				).finished;
+			if (visit.animation.native && 'startViewTransition' in document) {
+				await this.renderWithViewTransition(visit, page);
 			} else {
 				await this.renderPage(visit, await page);
 			}
@@ -220,19 +318,15 @@ export async function performNavigation(
 			return;
 		}
 
-		visit.state = VisitState.FAILED;
-
 		// Log to console
 		console.error(error);
 
-		// Remove current history entry, then load requested url in browser
-		this.options.skipPopStateHandling = () => {
-			window.location.assign(visit.to.url + visit.to.hash);
-			return true;
-		};
+		// Let plugins handle the error, or render an error template or reload the page
+		await this.hooks.call('visit:error', visit, { error: error as Error }, (visit, { error }) =>
+			this.handleError(visit, error)
+		);
 
-		// Go back to the actual page we're still at
-		window.history.back();
+		visit.state = VisitState.FAILED;
 	} finally {
 		delete visit.to.document;
 	}
@@ -1,6 +1,7 @@
 import { updateHistoryRecord, getCurrentUrl, classify, Location } from '../helpers.js';
 import type Swup from '../Swup.js';
 import type { PageData } from './fetchPage.js';
+import { matchRoute } from './routes.js';
 import { VisitState, type Visit } from './Visit.js';
 
 /**
@@ -20,6 +21,53 @@ export const renderPage = async function (this: Swup, visit: Visit, page: PageDa
 		this.location = Location.fromUrl(url);
 		visit.to.url = this.location.url;
 		visit.to.hash = this.location.hash;
+		visit.to.route = matchRoute(this.options.routes, visit.to.url);
+	}
+
+	// Fall back to replacing all containers if a requested container is missing on either page
+	const { containers } = this.options;
+	if (visit.containers.join() !== containers.join()) {
+		const missing = visit.containers.filter(
+			(selector) =>
+				!document.querySelector(selector) || !visit.to.document?.querySelector(selector)
+		);
+		if (missing.length || !visit.containers.length) {
+			console.warn(
+				`[swup] Container missing, replacing all containers: ${missing.join(', ')}`
+			);
+			visit.containers = [...containers];
+		}
+	}
+
+	// update head tags: allow handlers and plugins to modify the incoming head
+	// Skip documents without a head of their own, like error templates or partial responses
+	const head = visit.to.document?.head;
+	if (this.options.updateHead && head && /<head[\s>]/i.test(page.html)) {
+		await this.hooks.call('content:head', visit, { head }, (visit, { head }) =>
+			this.updateHead(head)
+		);
+	}
+
+	// update html and body attributes: allow handlers and plugins to customize the merging
+	// Skip root elements missing from the incoming markup, for the same reason as above
+	const { updateAttributes } = this.options;
+	const incomingDocument = visit.to.document;
+	if (updateAttributes && updateAttributes.length && incomingDocument) {
+		const roots = [
+			[document.documentElement, incomingDocument.documentElement, /<html[\s>]/i],
+			[document.body, incomingDocument.body, /<body[\s>]/i]
+		] as const;
+		for (const [el, incoming, tag] of roots) {
+			if (!tag.test(page.html)) continue;
+			const attributes = [...updateAttributes];
+			await this.hooks.call(
+				'content:attributes',
+				visit,
+				{ el, incoming, attributes },
+				(visit, { el, incoming, attributes }) =>
+					this.updateAttributes(el, incoming, attributes)
+			);
+		}
 	}
 
 	// replace content: allow handlers and plugins to overwrite paga data and containers
@@ -39,13 +87,30 @@ export const renderPage = async function (this: Swup, visit: Visit, page: PageDa
 			if (visit.animation.name) {
 				this.classes.add(`to-${classify(visit.animation.name)}`);
 			}
+			this.classes.addContainerAnimations();
+			if (visit.animation.reduced) {
+				this.classes.add('is-reduced-motion');
+			}
 		}
 	});
 
+	// run scripts inside the new containers
+	if (this.options.executeScripts) {
+		await this.executeScripts(visit);
+	}
+
 	// scroll into view: either anchor or top of page
-	await this.hooks.call('content:scroll', visit, undefined, () => {
-		return this.scrollToContent(visit);
+	await this.hooks.call('content:scroll', visit, undefined, async () => {
+		const scrolled = this.scrollToContent(visit);
+		// wait for smooth scrolling to finish, if requested
+		if (this.options.scroll.await) {
+			await this.scrolling;
+		}
+		return scrolled;
 	});
 
+	// announce new page and move focus for assistive technology
+	await this.a11y.update(visit);
+
 	await this.hooks.call('page:view', visit, { url: this.location.url, title: document.title });
 };
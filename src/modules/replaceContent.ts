@@ -1,6 +1,14 @@
 import type Swup from '../Swup.js';
 import { query, queryAll } from '../utils.js';
 import type { Visit } from './Visit.js';
+import { morph } from './morph.js';
+
+/**
+ * How containers are updated:
+ * - `replace`: replace each container with its incoming counterpart
+ * - `morph`: patch each container, changing only the nodes that differ
+ */
+export type ReplaceStrategy = 'replace' | 'morph';
 
 /**
  * Perform the replacement of content after loading a page.
@@ -24,7 +32,11 @@ export const replaceContent = function (this: Swup, visit: Visit): boolean {
 			const currentEl = document.querySelector(selector);
 			const incomingEl = incomingDocument.querySelector(selector);
 			if (currentEl && incomingEl) {
-				currentEl.replaceWith(incomingEl.cloneNode(true));
+				if (this.options.replaceStrategy === 'morph') {
+					morph(currentEl, incomingEl);
+				} else {
+					currentEl.replaceWith(incomingEl.cloneNode(true));
+				}
 				return true;
 			}
 			if (!currentEl) {
@@ -0,0 +1,36 @@
+import type Swup from '../Swup.js';
+import type { CacheData } from './Cache.js';
+import type { FetchError, FetchOptions } from './fetchPage.js';
+import type { Visit } from './Visit.js';
+
+/**
+ * Refresh a cached page in the background, updating the cache with the new version.
+ * Lets plugins know about the result to allow updating stale content on the page.
+ * The refresh runs with a visit of its own, as the visit rendering the stale page is usually done by then.
+ */
+export async function revalidatePage(
+	this: Swup,
+	visit: Visit,
+	stale: CacheData,
+	options: FetchOptions = {}
+): Promise<void> {
+	const revalidation = this.createVisit({ to: stale.url });
+	revalidation.cache.write = visit.cache.write;
+
+	let page;
+	try {
+		page = await this.fetchPage(stale.url, {
+			...options,
+			visit: revalidation,
+			revalidate: stale
+		});
+	} catch (error) {
+		if (!(error as FetchError)?.aborted) {
+			console.warn(`[swup] Error revalidating cached page ${stale.url}`, error);
+		}
+		return;
+	}
+
+	const changed = page !== stale && page.html !== stale.html;
+	await this.hooks.call('cache:revalidated', revalidation, { page, stale, changed });
+}
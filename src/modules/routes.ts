@@ -0,0 +1,62 @@
+import { compile } from 'path-to-regexp';
+
+import { Location, matchPath } from '../helpers.js';
+import { safeDecodeURIComponent } from '../utils.js';
+
+/** Parameters matched from a path pattern, e.g. `{ id: '42' }` for `/products/:id` */
+export type RouteParams = Record<string, string | string[]>;
+
+/** A named route, e.g. `{ name: 'product', path: '/products/:id' }` */
+export type Route = {
+	/** Unique name of the route. */
+	name: string;
+	/** Path pattern of the route, as understood by `matchPath`. */
+	path: string;
+};
+
+/** The route matching a URL, along with the params matched from it. */
+export type RouteMatch = {
+	name: string;
+	params: RouteParams;
+};
+
+/** A named route to navigate to, along with the params to build its URL from. */
+export type RouteLocation = {
+	name: string;
+	params?: Record<string, string | number | (string | number)[]>;
+	/** Hash to append to the URL, with or without leading '#' */
+	hash?: string;
+};
+
+/** Find the first route matching the pathname of a URL. */
+export function matchRoute(routes: Route[], url: string): RouteMatch | undefined {
+	if (!routes.length || !url) return undefined;
+	const { pathname } = Location.fromUrl(url);
+	for (const { name, path } of routes) {
+		const match = matchPath<RouteParams>(path, { decode: safeDecodeURIComponent })(pathname);
+		if (match) {
+			return { name, params: match.params };
+		}
+	}
+	return undefined;
+}
+
+/** Build the URL of a named route from its params. */
+export function buildRouteUrl(routes: Route[], { name, params = {}, hash }: RouteLocation): string {
+	const route = routes.find((route) => route.name === name);
+	if (!route) {
+		throw new Error(`[swup] Unknown route "${name}"`);
+	}
+
+	let path: string;
+	try {
+		path = compile<NonNullable<RouteLocation['params']>>(route.path, {
+			encode: encodeURIComponent
+		})(params);
+	} catch (error) {
+		throw new Error(`[swup] Error building route "${name}":\n${String(error)}`);
+	}
+
+	if (!hash) return path;
+	return hash.startsWith('#') ? path + hash : `${path}#${hash}`;
+}
@@ -0,0 +1,138 @@
+import { query } from '../utils.js';
+
+/** Define how swup scrolls to anchors and the top of the page. */
+export type ScrollOptions = {
+	/** How to scroll: `smooth` animates in JS using `duration` and `easing`. Default: `auto` */
+	behavior: ScrollBehavior;
+	/** Duration of smooth scrolling in milliseconds. Default: `400` */
+	duration: number;
+	/** Easing function of smooth scrolling, receiving and returning progress from 0 to 1. Default: ease-in-out */
+	easing: (progress: number) => number;
+	/**
+	 * Space to keep above anchors, e.g. for sticky headers: pixels, an element or selector
+	 * whose height is subtracted, or a callback receiving the anchor. Default: `0`
+	 */
+	offset: number | string | Element | ((target?: Element) => number);
+	/** Element or selector of the container to scroll. Default: `window` */
+	container: string | Element | null;
+	/** Wait for scrolling to finish before firing `page:view`. Default: `false` */
+	await: boolean;
+};
+
+const defaults: ScrollOptions = {
+	behavior: 'auto',
+	duration: 400,
+	easing: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+	offset: 0,
+	container: null,
+	await: false
+};
+
+/** Scroll animations currently running, by container. Starting a new one cancels the previous. */
+const animations = new WeakMap<Element | Window, symbol>();
+
+/** Resolve the scroll options, falling back to defaults. */
+export function getScrollOptions(options: Partial<ScrollOptions>): ScrollOptions {
+	return { ...defaults, ...options };
+}
+
+/** Find the element to scroll, or the window. */
+export function getScrollContainer({ container }: ScrollOptions): Element | Window {
+	const el = typeof container === 'string' ? query(container) : container;
+	return el ?? window;
+}
+
+/** Calculate the offset in pixels to keep above an element. */
+export function getScrollOffset({ offset }: ScrollOptions, target?: Element): number {
+	if (typeof offset === 'number') return offset;
+	if (typeof offset === 'function') return offset(target);
+	const el = typeof offset === 'string' ? query(offset) : offset;
+	return el?.getBoundingClientRect().height ?? 0;
+}
+
+/** Read the CSS `scroll-margin-top` of an element, in pixels. */
+export function getScrollMargin(el: Element): number {
+	return parseFloat(window.getComputedStyle(el).scrollMarginTop) || 0;
+}
+
+/** Read the current scroll position of a container. */
+function getPosition(container: Element | Window): { top: number; left: number } {
+	if (container instanceof Element) {
+		return { top: container.scrollTop, left: container.scrollLeft };
+	}
+	return { top: container.scrollY, left: container.scrollX };
+}
+
+/** Jump to a position inside a container. */
+function jumpTo(
+	container: Element | Window,
+	top: number,
+	left: number,
+	behavior: ScrollBehavior = 'instant'
+): void {
+	if (container instanceof Element) {
+		container.scrollTop = top;
+		container.scrollLeft = left;
+	} else {
+		container.scrollTo({ top, left, behavior });
+	}
+}
+
+/** Get the scroll position at which an element is aligned with the top of a container. */
+export function getElementPosition(
+	el: Element,
+	container: Element | Window,
+	offset: number = 0
+): { top: number; left: number } {
+	const rect = el.getBoundingClientRect();
+	const current = getPosition(container);
+	const origin =
+		container instanceof Element ? container.getBoundingClientRect() : { top: 0, left: 0 };
+	return {
+		top: Math.max(0, rect.top - origin.top + current.top - offset),
+		left: Math.max(0, rect.left - origin.left + current.left)
+	};
+}
+
+/**
+ * Scroll a container to a position.
+ *
+ * Smooth scrolling is animated in JS for control over duration and easing.
+ * Resolves once the position is reached, or when another scroll of the container takes over.
+ */
+export function scrollToPosition(
+	container: Element | Window,
+	{ top, left }: { top: number; left: number },
+	{ behavior, duration, easing }: Pick<ScrollOptions, 'behavior' | 'duration' | 'easing'>
+): Promise<void> {
+	const id = Symbol();
+	animations.set(container, id);
+
+	if (behavior !== 'smooth' || duration <= 0) {
+		jumpTo(container, top, left, behavior);
+		return Promise.resolve();
+	}
+
+	const start = getPosition(container);
+	const startTime = performance.now();
+
+	return new Promise((resolve) => {
+		const step = (now: number) => {
+			if (animations.get(container) !== id) return resolve();
+			const progress = Math.min(1, (now - startTime) / duration);
+			const eased = easing(progress);
+			jumpTo(
+				container,
+				start.top + (top - start.top) * eased,
+				start.left + (left - start.left) * eased
+			);
+			if (progress < 1) {
+				requestAnimationFrame(step);
+			} else {
+				animations.delete(container);
+				resolve();
+			}
+		};
+		requestAnimationFrame(step);
+	});
+}
@@ -1,35 +1,93 @@
 import type Swup from '../Swup.js';
+import { restoreScrollPosition } from '../helpers.js';
+import {
+	getElementPosition,
+	getScrollContainer,
+	getScrollMargin,
+	getScrollOffset,
+	getScrollOptions,
+	scrollToPosition
+} from './scroll.js';
+import { highlightAnchorText } from './getAnchorElement.js';
 import type { Visit } from './Visit.js';
 
 /**
  * Update the scroll position after page render.
- * @returns Promise<boolean>
+ * Smooth scrolling is animated in the background by the `scroll:animate` hook.
+ * @returns boolean
  */
 export const scrollToContent = function (this: Swup, visit: Visit): boolean {
-	const options: ScrollIntoViewOptions = { behavior: 'auto' };
-	const { target, reset } = visit.scroll;
+	const scroll = getScrollOptions(this.options.scroll);
+	const options: ScrollIntoViewOptions = { behavior: scroll.behavior };
+	const { target, reset, position } = visit.scroll;
 	const scrollTarget = target ?? visit.to.hash;
 
+	this.scrolling = undefined;
+
+	// History visits: restore the position saved when leaving the page
+	if (position) {
+		return this.hooks.callSync('scroll:restore', visit, { position }, (visit, { position }) => {
+			restoreScrollPosition(position);
+			return true;
+		});
+	}
+
+	const container = getScrollContainer(scroll);
+	const scrollTo = (
+		top: number,
+		left: number,
+		{ behavior = scroll.behavior }: ScrollIntoViewOptions
+	) => {
+		const { duration, easing } = scroll;
+		if (behavior !== 'smooth' || duration <= 0) {
+			scrollToPosition(container, { top, left }, { behavior, duration, easing });
+			return;
+		}
+		this.scrolling = this.hooks
+			.call(
+				'scroll:animate',
+				visit,
+				{ container, top, left, duration, easing },
+				(visit, { container, top, left, duration, easing }) =>
+					scrollToPosition(container, { top, left }, { behavior, duration, easing })
+			)
+			.catch((error) => console.warn('[swup] Error animating scroll position', error));
+	};
+
 	let scrolled = false;
 
 	if (scrollTarget) {
+		const anchor = this.hooks.callSync(
+			'scroll:resolve',
+			visit,
+			{ hash: scrollTarget },
+			(visit, { hash }) => this.getAnchorElement(hash)
+		);
+		visit.scroll.anchor = anchor;
 		scrolled = this.hooks.callSync(
 			'scroll:anchor',
 			visit,
-			{ hash: scrollTarget, options },
-			(visit, { hash, options }) => {
-				const anchor = this.getAnchorElement(hash);
-				if (anchor) {
+			{ hash: scrollTarget, anchor, options },
+			(visit, { hash, anchor, options }) => {
+				if (!anchor) return false;
+				highlightAnchorText(hash);
+				// Leave plain jumps to the browser, respecting scroll margins and nested scroll areas
+				const behavior = options.behavior ?? scroll.behavior;
+				if (!scroll.offset && !scroll.container && behavior !== 'smooth') {
 					anchor.scrollIntoView(options);
+					return true;
 				}
-				return !!anchor;
+				const offset = getScrollOffset(scroll, anchor) + getScrollMargin(anchor);
+				const { top, left } = getElementPosition(anchor, container, offset);
+				scrollTo(top, left, options);
+				return true;
 			}
 		);
 	}
 
 	if (reset && !scrolled) {
 		scrolled = this.hooks.callSync('scroll:top', visit, { options }, (visit, { options }) => {
-			window.scrollTo({ top: 0, left: 0, ...options });
+			scrollTo(0, 0, options);
 			return true;
 		});
 	}
@@ -0,0 +1,127 @@
+import { safeDecodeURIComponent } from '../utils.js';
+
+/** Parsed text directive of a text fragment like `#:~:text=prefix-,start,end,-suffix`. */
+type TextDirective = {
+	prefix: string;
+	start: string;
+	end: string;
+	suffix: string;
+};
+
+/** Text nodes of the document, joined with collapsed whitespace and mapped back to their nodes. */
+type TextIndex = {
+	text: string;
+	positions: { node: Text; offset: number }[];
+};
+
+/** Name of the highlight registered for matched text. */
+const highlightName = 'swup-text-fragment';
+
+/** Elements whose text isn't rendered and never matches. */
+const ignoredElements = ['script', 'style', 'noscript', 'template'];
+
+/** Normalize text for case- and whitespace-insensitive matching. */
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLocaleLowerCase();
+
+/** Parse the text directives of a fragment directive like `text=a&text=b`. */
+export function parseTextDirectives(directive: string): TextDirective[] {
+	return directive
+		.split('&')
+		.filter((part) => part.startsWith('text='))
+		.map((part) => {
+			const params = part.substring(5).split(',').map(safeDecodeURIComponent);
+			const prefix = params[0]?.endsWith('-') ? params.shift()!.slice(0, -1) : '';
+			const suffix = params[params.length - 1]?.startsWith('-')
+				? params.pop()!.substring(1)
+				: '';
+			const [start = '', end = ''] = params;
+			return {
+				prefix: normalize(prefix),
+				start: normalize(start),
+				end: normalize(end),
+				suffix: normalize(suffix)
+			};
+		})
+		.filter(({ start }) => !!start);
+}
+
+/** Index the visible text of the document, collapsing whitespace like the browser renders it. */
+function indexText(root: Element): TextIndex {
+	const index: TextIndex = { text: '', positions: [] };
+	const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+		acceptNode: (node) =>
+			node.parentElement?.closest(ignoredElements.join(','))
+				? NodeFilter.FILTER_REJECT
+				: NodeFilter.FILTER_ACCEPT
+	});
+
+	let node: Text | null;
+	while ((node = walker.nextNode() as Text | null)) {
+		for (let offset = 0; offset < node.data.length; offset++) {
+			const char = /\s/.test(node.data[offset]) ? ' ' : node.data[offset].toLocaleLowerCase();
+			if (char === ' ' && index.text.endsWith(' ')) continue;
+			index.text += char;
+			index.positions.push({ node, offset });
+		}
+	}
+	return index;
+}
+
+/** Find the first match of a text directive in the indexed text. */
+function findMatch(
+	{ text }: TextIndex,
+	{ prefix, start, end, suffix }: TextDirective
+): [number, number] | null {
+	let from = 0;
+	while (from < text.length) {
+		const startIndex = text.indexOf(start, from);
+		if (startIndex === -1) return null;
+
+		let endIndex = startIndex + start.length;
+		if (end) {
+			const index = text.indexOf(end, endIndex);
+			if (index === -1) return null;
+			endIndex = index + end.length;
+		}
+
+		const before = text.substring(0, startIndex).trimEnd();
+		const after = text.substring(endIndex).trimStart();
+		if (before.endsWith(prefix) && after.startsWith(suffix)) {
+			return [startIndex, endIndex];
+		}
+		from = startIndex + 1;
+	}
+	return null;
+}
+
+/** Find the ranges of the document matching a fragment directive like `text=start,end`. */
+export function findTextFragment(directive: string, root: Element = document.body): Range[] {
+	const directives = parseTextDirectives(directive);
+	if (!directives.length) return [];
+
+	const index = indexText(root);
+	return directives
+		.map((directive) => findMatch(index, directive))
+		.filter((match): match is [number, number] => !!match)
+		.map(([startIndex, endIndex]) => {
+			const start = index.positions[startIndex];
+			const end = index.positions[endIndex - 1];
+			const range = document.createRange();
+			range.setStart(start.node, start.offset);
+			range.setEnd(end.node, end.offset + 1);
+			return range;
+		});
+}
+
+/**
+ * Highlight matched text using the CSS Custom Highlight API, where supported.
+ * Style it using the `::highlight(swup-text-fragment)` selector.
+ */
+export function highlightTextFragment(ranges: Range[]): void {
+	if (typeof Highlight === 'undefined' || !CSS.highlights) return;
+	if (ranges.length) {
+		CSS.highlights.set(highlightName, new Highlight(...ranges));
+	} else {
+		CSS.highlights.delete(highlightName);
+	}
+}
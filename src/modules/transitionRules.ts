@@ -0,0 +1,55 @@
+import { Location, matchPath } from '../helpers.js';
+import { safeDecodeURIComponent } from '../utils.js';
+import type { Path } from '../helpers/matchPath.js';
+import type { CacheControl } from './navigate.js';
+import type { RouteParams } from './routes.js';
+
+/**
+ * Define how visits between matching paths are performed.
+ * Patterns are matched against the pathname using `matchPath`; omit one to match any page.
+ */
+export type TransitionRule = {
+	/** Path pattern of the previous page. */
+	from?: Path;
+	/** Path pattern of the next page. */
+	to?: Path;
+	/** Name of the animation to run. */
+	animation?: string;
+	/** Selectors of the containers to replace. */
+	containers?: string[];
+	/** Whether to read from or write to the cache, or refresh cached pages in the background. */
+	cache?: CacheControl | boolean | 'stale-while-revalidate';
+	/** Whether to reset the scroll position after the visit. */
+	scroll?: boolean;
+};
+
+/** A transition rule matching a visit, along with the params matched from both paths. */
+export type TransitionMatch = {
+	rule: TransitionRule;
+	from: RouteParams;
+	to: RouteParams;
+};
+
+/** Match a URL against a path pattern, returning the matched params. */
+function matchParams(pattern: Path | undefined, url: string): RouteParams | false {
+	if (pattern === undefined) return {};
+	const { pathname } = Location.fromUrl(url);
+	const match = matchPath<RouteParams>(pattern, { decode: safeDecodeURIComponent })(pathname);
+	return match ? match.params : false;
+}
+
+/** Find the first transition rule matching a visit between two URLs. */
+export function matchTransitionRule(
+	rules: TransitionRule[],
+	from: string,
+	to: string
+): TransitionMatch | undefined {
+	for (const rule of rules) {
+		const fromParams = matchParams(rule.from, from);
+		const toParams = fromParams && matchParams(rule.to, to);
+		if (fromParams && toParams) {
+			return { rule, from: fromParams, to: toParams };
+		}
+	}
+	return undefined;
+}
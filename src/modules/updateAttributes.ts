@@ -0,0 +1,31 @@
+import type Swup from '../Swup.js';
+
+/**
+ * Copy allowed attributes from an incoming root element onto the current one.
+ *
+ * Attributes missing on the incoming element are removed. Class lists are merged,
+ * keeping swup's own classes like `is-animating` and `swup-enabled` in place.
+ */
+export const updateAttributes = function (
+	this: Swup,
+	el: HTMLElement,
+	incoming: HTMLElement,
+	attributes: string[]
+): void {
+	attributes.forEach((name) => {
+		if (name === 'class') {
+			const keep = Array.from(el.classList).filter(
+				(c) => this.classes.isSwupClass(c) || c.startsWith('swup-')
+			);
+			el.className = [...new Set([...incoming.classList, ...keep])].join(' ');
+			return;
+		}
+
+		const value = incoming.getAttribute(name);
+		if (value === null) {
+			el.removeAttribute(name);
+		} else if (el.getAttribute(name) !== value) {
+			el.setAttribute(name, value);
+		}
+	});
+};
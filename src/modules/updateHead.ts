@@ -0,0 +1,134 @@
+import type Swup from '../Swup.js';
+
+/** Define how the document head is updated. */
+export type HeadOptions = {
+	/** Wait for newly added stylesheets to load before showing the new content. Default: `true` */
+	awaitStylesheets: boolean;
+	/** Maximum time to wait for stylesheets in milliseconds. Default: `3000` */
+	timeout: number;
+};
+
+const defaults: HeadOptions = {
+	awaitStylesheets: true,
+	timeout: 3000
+};
+
+/** Tags changed while updating the document head. */
+export type HeadUpdate = {
+	/** Tags added from the incoming document */
+	added: Element[];
+	/** Tags removed from the current document */
+	removed: Element[];
+	/** Tags whose attributes were updated in place */
+	updated: Element[];
+};
+
+/** Tags handled elsewhere: the title is set by `replaceContent`, scripts are never re-run. */
+const ignoredTags = ['title', 'script'];
+
+/** Meta attributes identifying a meta tag, in order of precedence. */
+const metaKeys = ['name', 'property', 'http-equiv', 'itemprop'];
+
+/**
+ * Get a key identifying a head tag across documents.
+ * Meta tags are identified by name, links by relation and href, everything else by its markup.
+ */
+export function getHeadKey(el: Element): string {
+	switch (el.localName) {
+		case 'meta': {
+			const key = metaKeys.find((attr) => el.hasAttribute(attr));
+			if (key) return `meta[${key}="${el.getAttribute(key)}"]`;
+			if (el.hasAttribute('charset')) return 'meta[charset]';
+			break;
+		}
+		case 'link': {
+			const rel = el.getAttribute('rel') ?? '';
+			const href = el.getAttribute('href') ?? '';
+			const hreflang = el.getAttribute('hreflang') ?? '';
+			return `link[rel="${rel}"][href="${href}"][hreflang="${hreflang}"]`;
+		}
+		case 'base':
+			return 'base';
+	}
+	return el.outerHTML;
+}
+
+/** Map the tags of a head by their key. */
+function getHeadTags(head: HTMLHeadElement): Map<string, Element> {
+	const tags = Array.from(head.children).filter((el) => !ignoredTags.includes(el.localName));
+	return new Map(tags.map((el) => [getHeadKey(el), el]));
+}
+
+/** Copy the attributes of one element onto another. */
+function syncAttributes(target: Element, source: Element): void {
+	Array.from(target.attributes)
+		.filter(({ name }) => !source.hasAttribute(name))
+		.forEach(({ name }) => target.removeAttribute(name));
+	Array.from(source.attributes).forEach(({ name, value }) => target.setAttribute(name, value));
+}
+
+/** Resolve once a stylesheet has loaded or failed to load, or after a timeout. */
+function waitForStylesheet(link: HTMLLinkElement, timeout: number): Promise<void> {
+	return new Promise((resolve) => {
+		const done = () => {
+			clearTimeout(timeoutId);
+			resolve();
+		};
+		const timeoutId = setTimeout(done, timeout);
+		link.addEventListener('load', done, { once: true });
+		link.addEventListener('error', done, { once: true });
+	});
+}
+
+/**
+ * Update the tags in the document head to match the incoming document.
+ *
+ * Tags are matched by key: new tags are added, missing tags removed and changed tags
+ * updated in place. Only tags of the server-rendered head or added by swup are removed,
+ * leaving alone tags inserted at runtime by other scripts and tags marked with
+ * `data-swup-persist`. Old tags are removed once new stylesheets have loaded.
+ */
+export const updateHead = async function (
+	this: Swup,
+	incomingHead: HTMLHeadElement
+): Promise<HeadUpdate> {
+	const { updateHead } = this.options;
+	const options = typeof updateHead === 'object' ? { ...defaults, ...updateHead } : defaults;
+
+	const currentTags = getHeadTags(document.head);
+	const incomingTags = getHeadTags(incomingHead);
+
+	const removed = Array.from(currentTags)
+		.filter(([key]) => !incomingTags.has(key))
+		.filter(([, el]) => this.headTags.has(el) && !el.hasAttribute('data-swup-persist'))
+		.map(([, el]) => el);
+
+	const updated = Array.from(currentTags)
+		.filter(([key, el]) => incomingTags.has(key) && !el.isEqualNode(incomingTags.get(key)!))
+		.map(([key, el]) => {
+			syncAttributes(el, incomingTags.get(key)!);
+			return el;
+		});
+
+	const added = Array.from(incomingTags)
+		.filter(([key]) => !currentTags.has(key))
+		.map(([, el]) => document.importNode(el, true));
+
+	added.forEach((el) => {
+		document.head.appendChild(el);
+		this.headTags.add(el);
+	});
+
+	// Keep old stylesheets until the new ones are ready, to avoid a flash of unstyled content
+	if (options.awaitStylesheets) {
+		const stylesheets = added.filter(
+			(el): el is HTMLLinkElement =>
+				el.localName === 'link' && /\bstylesheet\b/i.test(el.getAttribute('rel') ?? '')
+		);
+		await Promise.all(stylesheets.map((link) => waitForStylesheet(link, options.timeout)));
+	}
+
+	removed.forEach((el) => el.remove());
+
+	return { added, removed, updated };
+};
@@ -0,0 +1,73 @@
+import type Swup from '../Swup.js';
+import { classify } from '../helpers.js';
+import { queryAll } from '../utils.js';
+import type { PageData } from './fetchPage.js';
+import type { Visit } from './Visit.js';
+
+/** Options for starting a view transition with types, not yet part of the DOM typings. */
+type ViewTransitionOptions = { update: UpdateCallback; types?: string[] };
+
+type StartViewTransition = (options: UpdateCallback | ViewTransitionOptions) => ViewTransition;
+
+/**
+ * Assign view transition names to elements marked with `data-swup-transition-name`.
+ * Uses the attribute value as name, or the element's id if the value is empty.
+ */
+export function assignTransitionNames(): void {
+	queryAll('[data-swup-transition-name]').forEach((el) => {
+		const name = el.getAttribute('data-swup-transition-name') || el.id;
+		if (name) {
+			el.style.setProperty('view-transition-name', classify(name));
+		}
+	});
+}
+
+/** Get the view transition types of a visit: its animation name and history direction. */
+export function getViewTransitionTypes(visit: Visit): string[] {
+	const { name } = visit.animation;
+	const direction = visit.history.direction || 'forwards';
+	return [...(name ? [classify(name)] : []), direction];
+}
+
+/** Start a view transition, with types if the browser supports them. */
+function startViewTransition(update: UpdateCallback, types: string[]): ViewTransition {
+	const start = document.startViewTransition.bind(document) as StartViewTransition;
+	try {
+		return start({ update, types });
+	} catch {
+		// Older implementations only accept a callback
+		return start(update);
+	}
+}
+
+/**
+ * Render the next page inside a native view transition.
+ * Lets plugins know when the transition is ready to animate and when it has finished.
+ */
+export async function renderWithViewTransition(
+	this: Swup,
+	visit: Visit,
+	page: Promise<PageData>
+): Promise<void> {
+	assignTransitionNames();
+
+	const transition = startViewTransition(async () => {
+		await this.renderPage(visit, await page);
+		assignTransitionNames();
+	}, getViewTransitionTypes(visit));
+	this.viewTransition = transition;
+
+	transition.ready
+		.then(() => this.hooks.call('animation:native:ready', visit, { transition }))
+		.catch(() => {});
+
+	try {
+		await transition.finished;
+	} finally {
+		if (this.viewTransition === transition) {
+			this.viewTransition = undefined;
+		}
+	}
+
+	await this.hooks.call('animation:native:finished', visit, { transition });
+}
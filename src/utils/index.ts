@@ -11,6 +11,11 @@ export const queryAll = (
 	return Array.from(context.querySelectorAll(selector));
 };
 
+/** Check if the user prefers reduced motion. Reads the media query anew on each call. */
+export const prefersReducedMotion = (): boolean => {
+	return !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+};
+
 /** Return a Promise that resolves after the next event loop. */
 export const nextTick = (): Promise<void> => {
 	return new Promise((resolve) => {
@@ -66,3 +71,12 @@ export function getContextualAttr(
 	const target = el?.closest(`[${attr}]`);
 	return target?.hasAttribute(attr) ? target?.getAttribute(attr) || true : undefined;
 }
+
+/** Decode a URI component, returning it unchanged if malformed. */
+export const safeDecodeURIComponent = (value: string): string => {
+	try {
+		return decodeURIComponent(value);
+	} catch (error) {
+		return value;
+	}
+};
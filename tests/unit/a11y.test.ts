@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+
+const visit = async (swup: Swup, url: string = '/page') => {
+	const handler = vi.fn();
+	swup.hooks.on('page:view', handler);
+	await swup.navigate(url, { animate: false });
+	await vi.waitFor(() => expect(handler).toBeCalled());
+};
+
+const stubPage = (content: string) => {
+	vi.stubGlobal(
+		'fetch',
+		vi.fn(async () => new Response(`<main id="swup">${content}</main>`))
+	);
+};
+
+describe('A11y', () => {
+	let swup: Swup | undefined;
+
+	afterEach(async () => {
+		await swup?.destroy();
+		swup = undefined;
+		vi.unstubAllGlobals();
+		document.body.innerHTML = '';
+		document.title = '';
+	});
+
+	it('should create a live region if enabled', () => {
+		swup = new Swup({ a11y: true });
+		const liveRegion = document.querySelector('.swup-announcer');
+		expect(liveRegion?.getAttribute('aria-live')).toBe('assertive');
+	});
+
+	it('should not create a live region by default', () => {
+		swup = new Swup();
+		expect(document.querySelector('.swup-announcer')).toBeNull();
+	});
+
+	it('should announce the new page', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		stubPage('<h1>About us</h1>');
+		swup = new Swup({ a11y: { announcement: 'Page loaded: {title} at {url}' } });
+		await visit(swup, '/about');
+		expect(document.querySelector('.swup-announcer')?.textContent).toBe(
+			'Page loaded: About us at /about'
+		);
+	});
+
+	it('should let hooks customize the announcement', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		stubPage('<h1>About us</h1>');
+		swup = new Swup({ a11y: true });
+		swup.hooks.before('content:announce', (visit, args) => {
+			args.announcement = `Custom: ${args.title}`;
+		});
+		await visit(swup);
+		expect(document.querySelector('.swup-announcer')?.textContent).toBe('Custom: About us');
+	});
+
+	it('should focus the main heading', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		stubPage('<h1>Heading</h1>');
+		swup = new Swup({ a11y: true });
+		await visit(swup);
+		const heading = document.querySelector('h1');
+		expect(document.activeElement).toBe(heading);
+		expect(heading?.getAttribute('tabindex')).toBe('-1');
+	});
+
+	it('should remove the added tabindex once focus moves on', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		stubPage('<h1>Heading</h1>');
+		swup = new Swup({ a11y: true });
+		await visit(swup);
+		const heading = document.querySelector('h1');
+		heading?.blur();
+		expect(heading?.hasAttribute('tabindex')).toBe(false);
+	});
+
+	it('should not add a tabindex to focusable elements', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		stubPage('<h1>Heading</h1><button data-swup-focus>Start</button>');
+		swup = new Swup({ a11y: true });
+		await visit(swup);
+		expect(document.querySelector('button')?.hasAttribute('tabindex')).toBe(false);
+	});
+
+	it('should prefer elements marked for focus', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		stubPage('<h1>Heading</h1><button data-swup-focus>Start</button>');
+		swup = new Swup({ a11y: true });
+		await visit(swup);
+		expect(document.activeElement).toBe(document.querySelector('button'));
+	});
+
+	it('should focus anchors resolved by hooks', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		stubPage('<h1>Heading</h1><section id="details">Details</section>');
+		Element.prototype.scrollIntoView = vi.fn();
+		swup = new Swup({ a11y: true });
+		swup.hooks.replace('scroll:resolve', () => document.querySelector('#details'));
+		await visit(swup, '/anchor#custom');
+		expect(document.activeElement).toBe(document.querySelector('#details'));
+	});
+
+	it('should prefer the anchor target', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		stubPage('<h1>Heading</h1><section id="details">Details</section>');
+		Element.prototype.scrollIntoView = vi.fn();
+		swup = new Swup({ a11y: true });
+		await visit(swup, '/anchor#details');
+		expect(document.activeElement).toBe(document.querySelector('#details'));
+	});
+});
@@ -1,7 +1,16 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import Swup from '../../src/index.js';
-import { calculateTimeout, getStyleProperties, toMs } from '../../src/modules/awaitAnimations.js';
+import {
+	awaitVisitAnimations,
+	calculateTimeout,
+	getStyleProperties,
+	toMs
+} from '../../src/modules/awaitAnimations.js';
+
+class SwupWithPublicVisitAnimations extends Swup {
+	public awaitVisitAnimations = awaitVisitAnimations;
+}
 
 describe('awaitAnimations', () => {
 	it('returns a Promise', () => {
@@ -12,6 +21,100 @@ describe('awaitAnimations', () => {
 	});
 });
 
+describe('awaitAnimations with the Web Animations API', () => {
+	const mockAnimation = (iterations: number = 1, playState: string = 'running') => {
+		let finish: () => void = () => {};
+		const finished = new Promise<void>((resolve) => (finish = resolve));
+		const animation = {
+			playState,
+			finished,
+			effect: { getComputedTiming: () => ({ iterations }) }
+		} as unknown as Animation;
+		return { animation, finish };
+	};
+
+	const createElement = (...animations: Animation[]) => {
+		const element = document.createElement('div');
+		element.getAnimations = () => animations;
+		return element;
+	};
+
+	it('awaits the finished promise of running animations', async () => {
+		const swup = new Swup();
+		const { animation, finish } = mockAnimation();
+		let done = false;
+		const result = swup
+			.awaitAnimations({ selector: false, elements: [createElement(animation)] })
+			.then(() => (done = true));
+
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(done).toBe(false);
+		finish();
+		await result;
+		expect(done).toBe(true);
+	});
+
+	it('ignores infinite and paused animations', async () => {
+		const swup = new Swup();
+		const infinite = mockAnimation(Infinity).animation;
+		const paused = mockAnimation(1, 'paused').animation;
+		await expect(
+			swup.awaitAnimations({ selector: false, elements: [createElement(infinite, paused)] })
+		).resolves.toBeUndefined();
+	});
+
+	it('stops waiting after the timeout', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const swup = new Swup({ animationTimeout: 20 });
+		const { animation } = mockAnimation();
+		await expect(
+			swup.awaitAnimations({ selector: false, elements: [createElement(animation)] })
+		).resolves.toBeUndefined();
+		expect(console.warn).toBeCalled();
+		vi.restoreAllMocks();
+	});
+});
+
+describe('awaitVisitAnimations', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		document.body.innerHTML = '';
+	});
+
+	it('awaits the animation selector on the whole page by default', async () => {
+		const swup = new SwupWithPublicVisitAnimations();
+		const spy = vi.spyOn(swup, 'awaitAnimations').mockResolvedValue();
+		await swup.awaitVisitAnimations(swup.visit);
+		expect(spy).toBeCalledWith({ selector: '[class*="transition-"]', timeout: undefined });
+	});
+
+	it('shortens animations if users prefer reduced motion', async () => {
+		const swup = new SwupWithPublicVisitAnimations({ reducedMotion: 'shorten' });
+		const spy = vi.spyOn(swup, 'awaitAnimations').mockResolvedValue();
+		swup.visit.animation.reduced = true;
+		await swup.awaitVisitAnimations(swup.visit);
+		expect(spy).toBeCalledWith(expect.objectContaining({ timeout: 200 }));
+	});
+
+	it('awaits each container with its own selector', async () => {
+		document.body.innerHTML = `
+			<header id="header" data-swup-container-selector=".slide"><div class="slide"></div></header>
+			<main id="swup" class="transition-fade"><div class="slide"></div></main>
+		`;
+		const swup = new SwupWithPublicVisitAnimations({
+			animationScope: 'containers',
+			containers: ['#header', '#swup']
+		});
+		const spy = vi.spyOn(swup, 'awaitAnimations').mockResolvedValue();
+		await swup.awaitVisitAnimations(swup.visit);
+
+		expect(spy).toBeCalledTimes(2);
+		const [[header], [main]] = spy.mock.calls;
+		expect(header.elements).toEqual([document.querySelector('#header .slide')]);
+		expect(main.elements).toEqual([document.querySelector('#swup')]);
+	});
+});
+
 describe('getStyleProperties', () => {
 	let element: HTMLElement;
 
@@ -1,7 +1,16 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory, IDBObjectStore } from 'fake-indexeddb';
 import Swup from '../../src/Swup.js';
 import { Cache, CacheData } from '../../src/modules/Cache.js';
-import { Visit } from '../../src/modules/Visit.js';
+import {
+	IndexedDBCacheAdapter,
+	MemoryCacheAdapter,
+	SessionStorageCacheAdapter,
+	deserializeCacheData,
+	serializeCacheData
+} from '../../src/modules/CacheAdapters.js';
+import { Visit, VisitState } from '../../src/modules/Visit.js';
+import { revalidatePage } from '../../src/modules/revalidatePage.js';
 
 interface CacheTtlData {
 	ttl: number;
@@ -44,7 +53,7 @@ describe('Cache', () => {
 
 	it('should get pages', () => {
 		cache.set(page1.url, page1);
-		expect(cache.get(page1.url)).toEqual(page1);
+		expect(cache.get(page1.url)).toMatchObject(page1);
 	});
 
 	it('should delete pages', () => {
@@ -90,7 +99,7 @@ describe('Cache', () => {
 		cache.set(page1.url, page1);
 
 		expect(handler).toBeCalledTimes(1);
-		expect(handler).toBeCalledWith(visit, { page: page1 }, undefined);
+		expect(handler).toBeCalledWith(visit, { page: expect.objectContaining(page1) }, undefined);
 	});
 
 	it('should allow augmenting cache entries on save', () => {
@@ -105,7 +114,7 @@ describe('Cache', () => {
 
 		const page = cache.get('/page');
 
-		expect(page).toEqual({ url: '/page', html: '', ttl: 1000, created: now });
+		expect(page).toMatchObject({ url: '/page', html: '', ttl: 1000, created: now });
 	});
 
 	it('should allow manual pruning', () => {
@@ -143,6 +152,345 @@ describe('Cache', () => {
 	});
 });
 
+describe('Cache limits', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should record timestamps on pages', () => {
+		vi.useFakeTimers({ now: 1000 });
+		const swup = new Swup();
+		swup.cache.set(page1.url, page1);
+		expect(swup.cache.get(page1.url)).toMatchObject({ created: 1000, accessed: 1000 });
+		vi.setSystemTime(2000);
+		expect(swup.cache.get(page1.url)).toMatchObject({ created: 1000, accessed: 2000 });
+	});
+
+	it('should evict least recently used pages above maxEntries', () => {
+		const swup = new Swup({ cacheLimits: { maxEntries: 2 } });
+		swup.cache.set(page1.url, page1);
+		swup.cache.set(page2.url, page2);
+		swup.cache.get(page1.url);
+		swup.cache.set(page3.url, page3);
+
+		expect(swup.cache.size).toBe(2);
+		expect(swup.cache.has(page1.url)).toBe(true);
+		expect(swup.cache.has(page2.url)).toBe(false);
+		expect(swup.cache.has(page3.url)).toBe(true);
+	});
+
+	it('should evict pages above maxSize', () => {
+		const swup = new Swup({ cacheLimits: { maxSize: 10 } });
+		swup.cache.set('/page-1', { url: '/page-1', html: '12345' });
+		swup.cache.set('/page-2', { url: '/page-2', html: '12345' });
+		expect(swup.cache.size).toBe(2);
+		swup.cache.set('/page-3', { url: '/page-3', html: 'ü' });
+		expect(swup.cache.size).toBe(2);
+		expect(swup.cache.has('/page-1')).toBe(false);
+	});
+
+	it('should expire pages after maxAge', () => {
+		vi.useFakeTimers({ now: 1000 });
+		const swup = new Swup({ cacheLimits: { maxAge: 500 } });
+		swup.cache.set(page1.url, page1);
+		vi.setSystemTime(1500);
+		expect(swup.cache.get(page1.url)).toBeDefined();
+		vi.setSystemTime(1501);
+		expect(swup.cache.get(page1.url)).toBeUndefined();
+		expect(swup.cache.size).toBe(0);
+	});
+
+	it('should trigger a hook on eviction', () => {
+		const swup = new Swup({ cacheLimits: { maxEntries: 1 } });
+		const handler = vi.fn();
+		swup.hooks.on('cache:evict', handler);
+
+		swup.cache.set(page1.url, page1);
+		expect(handler).not.toBeCalled();
+		swup.cache.set(page2.url, page2);
+		expect(handler).toBeCalledTimes(1);
+		expect(handler).toBeCalledWith(
+			swup.visit,
+			{ page: expect.objectContaining(page1), reason: 'maxEntries' },
+			undefined
+		);
+	});
+
+	it('should not trigger the eviction hook on manual deletion', () => {
+		const swup = new Swup();
+		const handler = vi.fn();
+		swup.hooks.on('cache:evict', handler);
+
+		swup.cache.set(page1.url, page1);
+		swup.cache.delete(page1.url);
+		swup.cache.clear();
+		expect(handler).not.toBeCalled();
+	});
+});
+
+describe('Cache adapters', () => {
+	afterEach(() => {
+		window.sessionStorage.clear();
+		vi.restoreAllMocks();
+	});
+
+	it('should serialize and deserialize pages', () => {
+		const page = { url: '/page', html: 'html', created: 1, accessed: 2, custom: true };
+		expect(deserializeCacheData(serializeCacheData(page))).toEqual(page);
+		expect(deserializeCacheData('{"url":"/page"}')).toBeUndefined();
+		expect(deserializeCacheData('invalid')).toBeUndefined();
+	});
+
+	it('should restore pages from the adapter', async () => {
+		const cacheAdapter = new MemoryCacheAdapter();
+		const swup1 = new Swup({ cacheAdapter });
+		await swup1.cache.restored;
+		swup1.cache.set(page1.url, page1);
+		swup1.cache.set(page2.url, page2);
+		swup1.cache.delete(page2.url);
+
+		const swup2 = new Swup({ cacheAdapter });
+		await swup2.cache.restored;
+		expect(swup2.cache.size).toBe(1);
+		expect(swup2.cache.get(page1.url)).toMatchObject(page1);
+	});
+
+	it('should discard pages of other versions', async () => {
+		const swup1 = new Swup({ cacheAdapter: new SessionStorageCacheAdapter({ version: '1' }) });
+		await swup1.cache.restored;
+		swup1.cache.set(page1.url, page1);
+		expect(window.sessionStorage.length).toBe(1);
+
+		const swup2 = new Swup({ cacheAdapter: new SessionStorageCacheAdapter({ version: '2' }) });
+		await swup2.cache.restored;
+		expect(swup2.cache.size).toBe(0);
+		expect(window.sessionStorage.length).toBe(0);
+	});
+
+	it('should persist pages in sessionStorage', async () => {
+		const swup = new Swup({ cacheAdapter: new SessionStorageCacheAdapter() });
+		await swup.cache.restored;
+		swup.cache.set(page1.url, page1);
+		await new Promise((resolve) => setTimeout(resolve));
+
+		const stored = window.sessionStorage.getItem('swup:cache::/page-1');
+		expect(deserializeCacheData(stored)).toMatchObject(page1);
+
+		swup.cache.clear();
+		await new Promise((resolve) => setTimeout(resolve));
+		expect(window.sessionStorage.length).toBe(0);
+	});
+
+	it('should keep persisted pages when destroying swup', async () => {
+		const swup = new Swup({ cacheAdapter: new SessionStorageCacheAdapter() });
+		await swup.cache.restored;
+		swup.cache.set(page1.url, page1);
+		await swup.destroy();
+		expect(swup.cache.size).toBe(0);
+		expect(window.sessionStorage.length).toBe(1);
+	});
+
+	it('should make room in sessionStorage when the quota is exceeded', () => {
+		const adapter = new SessionStorageCacheAdapter();
+		adapter.save('/page-1', { ...page1, created: 1, accessed: 1 });
+		adapter.save('/page-2', { ...page2, created: 2, accessed: 2 });
+
+		const setItem = Storage.prototype.setItem;
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (
+			this: Storage,
+			key: string,
+			value: string
+		) {
+			if (this.length >= 2) throw new DOMException('Full', 'QuotaExceededError');
+			setItem.call(this, key, value);
+		});
+
+		adapter.save('/page-3', { ...page3, created: 3, accessed: 3 });
+		expect(window.sessionStorage.getItem('swup:cache::/page-1')).toBeNull();
+		expect(window.sessionStorage.getItem('swup:cache::/page-2')).not.toBeNull();
+		expect(window.sessionStorage.getItem('swup:cache::/page-3')).not.toBeNull();
+	});
+});
+
+describe('IndexedDB cache adapter', () => {
+	beforeEach(() => {
+		vi.stubGlobal('indexedDB', new IDBFactory());
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('should save and load pages', async () => {
+		const adapter = new IndexedDBCacheAdapter();
+		await adapter.save('/page-1', { ...page1, created: 1, accessed: 1 });
+		await adapter.save('/page-2', { ...page2, created: 2, accessed: 2 });
+
+		const pages = await new IndexedDBCacheAdapter().load();
+		expect(pages).toHaveLength(2);
+		expect(pages).toEqual(
+			expect.arrayContaining([expect.objectContaining(page1), expect.objectContaining(page2)])
+		);
+	});
+
+	it('should delete and clear pages', async () => {
+		const adapter = new IndexedDBCacheAdapter();
+		await adapter.save('/page-1', { ...page1, created: 1, accessed: 1 });
+		await adapter.save('/page-2', { ...page2, created: 2, accessed: 2 });
+		await adapter.delete('/page-1');
+		expect(await adapter.load()).toEqual([expect.objectContaining(page2)]);
+		await adapter.clear();
+		expect(await adapter.load()).toEqual([]);
+	});
+
+	it('should discard pages of other versions on load', async () => {
+		const adapter1 = new IndexedDBCacheAdapter({ version: '1' });
+		await adapter1.save('/page-1', { ...page1, created: 1, accessed: 1 });
+		await adapter1.save('/page-2', { ...page2, created: 2, accessed: 2 });
+
+		expect(await new IndexedDBCacheAdapter({ version: '2' }).load()).toEqual([]);
+		expect(await new IndexedDBCacheAdapter({ version: '1' }).load()).toEqual([]);
+	});
+
+	it('should restore pages into the cache', async () => {
+		const swup1 = new Swup({ cacheAdapter: new IndexedDBCacheAdapter() });
+		await swup1.cache.restored;
+		swup1.cache.set(page1.url, page1);
+		await vi.waitFor(async () =>
+			expect(await new IndexedDBCacheAdapter().load()).toHaveLength(1)
+		);
+
+		const swup2 = new Swup({ cacheAdapter: new IndexedDBCacheAdapter() });
+		await swup2.cache.restored;
+		expect(swup2.cache.get(page1.url)).toMatchObject(page1);
+	});
+
+	it('should skip pages when the quota is exceeded', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(() => {
+			throw new DOMException('Full', 'QuotaExceededError');
+		});
+		const adapter = new IndexedDBCacheAdapter();
+		await expect(
+			adapter.save('/page-1', { ...page1, created: 1, accessed: 1 })
+		).resolves.toBeUndefined();
+		expect(console.warn).toBeCalledWith(
+			'[swup] Storage quota exceeded, not persisting /page-1'
+		);
+		expect(await adapter.load()).toEqual([]);
+	});
+});
+
+describe('Stale-while-revalidate', () => {
+	class SwupWithPublicRevalidation extends Swup {
+		public revalidatePage = revalidatePage;
+	}
+
+	it('should refresh cached pages in the background', async () => {
+		const swup = new SwupWithPublicRevalidation({ cache: 'stale-while-revalidate' });
+		const stale = { ...page1, created: 0, accessed: 0 };
+		const fetchPage = vi.spyOn(swup, 'fetchPage').mockResolvedValue({ ...page1, html: 'new' });
+		const handler = vi.fn();
+		swup.hooks.on('cache:revalidated', handler);
+
+		await swup.revalidatePage(swup.visit, stale);
+
+		const { visit } = fetchPage.mock.calls[0][1]!;
+		expect(visit).not.toBe(swup.visit);
+		expect(visit?.to.url).toBe(page1.url);
+		expect(visit?.cache.write).toBe(true);
+		expect(fetchPage).toBeCalledWith(page1.url, { visit, revalidate: stale });
+		expect(handler).toBeCalledWith(
+			visit,
+			{ page: { ...page1, html: 'new' }, stale, changed: true },
+			undefined
+		);
+	});
+
+	it('should refresh cached pages after the visit is done', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('<main id="swup">new</main>'))
+		);
+		const swup = new SwupWithPublicRevalidation({ cache: 'stale-while-revalidate' });
+		const stale = { ...page1, created: 0, accessed: 0 };
+		const request = vi.fn();
+		const handler = vi.fn();
+		swup.hooks.on('fetch:request', request);
+		swup.hooks.on('cache:revalidated', handler);
+
+		swup.visit.state = VisitState.COMPLETED;
+		await swup.revalidatePage(swup.visit, stale);
+
+		expect(request).toBeCalled();
+		expect(handler).toBeCalledWith(
+			expect.anything(),
+			expect.objectContaining({ changed: true }),
+			undefined
+		);
+		vi.unstubAllGlobals();
+	});
+
+	it('should report unchanged pages', async () => {
+		const swup = new SwupWithPublicRevalidation({ cache: 'stale-while-revalidate' });
+		const stale = { ...page1, created: 0, accessed: 0 };
+		vi.spyOn(swup, 'fetchPage').mockResolvedValue(stale);
+		const handler = vi.fn();
+		swup.hooks.on('cache:revalidated', handler);
+
+		await swup.revalidatePage(swup.visit, stale);
+
+		expect(handler).toBeCalledWith(
+			expect.anything(),
+			{ page: stale, stale, changed: false },
+			undefined
+		);
+	});
+
+	it('should ignore failed refreshes', async () => {
+		const swup = new SwupWithPublicRevalidation({ cache: 'stale-while-revalidate' });
+		vi.spyOn(swup, 'fetchPage').mockRejectedValue(new Error('Network error'));
+		const handler = vi.fn();
+		swup.hooks.on('cache:revalidated', handler);
+
+		await expect(swup.revalidatePage(swup.visit, page1 as CacheData)).resolves.toBeUndefined();
+		expect(handler).not.toBeCalled();
+	});
+
+	it('should render cached pages and let plugins re-render revalidated ones', async () => {
+		document.body.innerHTML = '<main id="swup">current</main>';
+		let respond: (response: Response) => void = () => {};
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(() => new Promise<Response>((resolve) => (respond = resolve)))
+		);
+		const swup = new Swup({ cache: 'stale-while-revalidate' });
+		swup.cache.set('/stale', { url: '/stale', html: '<main id="swup">stale</main>' });
+
+		const rendered = vi.fn();
+		swup.hooks.on('page:view', () => rendered(document.querySelector('#swup')?.textContent));
+		const revalidated = vi.fn();
+		swup.hooks.on('cache:revalidated', (visit, { page, changed }) => {
+			revalidated(changed);
+			const doc = new DOMParser().parseFromString(page.html, 'text/html');
+			document.querySelector('#swup')!.replaceWith(doc.querySelector('#swup')!);
+		});
+
+		await swup.navigate('/stale', { animate: false });
+		await vi.waitFor(() => expect(rendered).toBeCalledWith('stale'));
+
+		respond(new Response('<main id="swup">fresh</main>'));
+		await vi.waitFor(() => expect(revalidated).toBeCalledWith(true));
+		expect(swup.cache.get('/stale')?.html).toBe('<main id="swup">fresh</main>');
+		expect(document.querySelector('#swup')?.textContent).toBe('fresh');
+
+		await swup.destroy();
+		vi.unstubAllGlobals();
+		document.body.innerHTML = '';
+	});
+});
+
 describe('Types', () => {
 	it('error when necessary', async () => {
 		const swup = new Swup();
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+	getCacheValidation,
+	getConditionalHeaders,
+	getRevalidation,
+	isStale,
+	matchesVary,
+	parseCacheControl
+} from '../../src/modules/cacheControl.js';
+
+const page = { url: '/page', html: '', created: 0, accessed: 0 };
+
+const createResponse = (headers: Record<string, string>) => new Response('', { headers });
+
+describe('parseCacheControl', () => {
+	it('should parse directives', () => {
+		const directives = parseCacheControl('Private, max-age=60, no-cache="Set-Cookie"');
+		expect(directives.get('private')).toBe(true);
+		expect(directives.get('max-age')).toBe('60');
+		expect(directives.get('no-cache')).toBe('Set-Cookie');
+	});
+
+	it('should handle empty headers', () => {
+		expect(parseCacheControl(null).size).toBe(0);
+		expect(parseCacheControl('').size).toBe(0);
+	});
+});
+
+describe('getCacheValidation', () => {
+	it('should forbid storing no-store responses', () => {
+		const response = createResponse({ 'Cache-Control': 'no-store' });
+		expect(getCacheValidation(response, new Headers())).toBe(false);
+	});
+
+	it('should forbid storing responses that vary by everything', () => {
+		const response = createResponse({ Vary: '*' });
+		expect(getCacheValidation(response, new Headers())).toBe(false);
+	});
+
+	it('should calculate expiry from max-age', () => {
+		const response = createResponse({ 'Cache-Control': 'private, max-age=60' });
+		expect(getCacheValidation(response, new Headers(), 1000)).toMatchObject({
+			expires: 61000
+		});
+	});
+
+	it('should expire no-cache responses immediately', () => {
+		const response = createResponse({ 'Cache-Control': 'no-cache, max-age=60' });
+		expect(getCacheValidation(response, new Headers(), 1000)).toMatchObject({ expires: 1000 });
+	});
+
+	it('should fall back to the Expires header', () => {
+		const date = 'Wed, 21 Oct 2015 07:28:00 GMT';
+		const response = createResponse({ Expires: date });
+		expect(getCacheValidation(response, new Headers())).toMatchObject({
+			expires: Date.parse(date)
+		});
+	});
+
+	it('should store validators and varying request headers', () => {
+		const response = createResponse({
+			'ETag': '"abc"',
+			'Last-Modified': 'Wed, 21 Oct 2015 07:28:00 GMT',
+			'Vary': 'Accept, X-Theme'
+		});
+		const requestHeaders = new Headers({ Accept: 'text/html' });
+		expect(getCacheValidation(response, requestHeaders)).toEqual({
+			expires: undefined,
+			etag: '"abc"',
+			lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT',
+			vary: { 'accept': 'text/html', 'x-theme': '' }
+		});
+	});
+
+	it('should not set validators missing from the response', () => {
+		const validation = getCacheValidation(createResponse({}), new Headers());
+		expect(validation).toStrictEqual({});
+	});
+});
+
+describe('getRevalidation', () => {
+	it('should keep validators missing from a 304 response', () => {
+		const cached = { ...page, etag: '"abc"', lastModified: 'yesterday' };
+		const revalidation = getRevalidation(cached, {}, 5000);
+		expect({ ...cached, ...revalidation }).toMatchObject({
+			etag: '"abc"',
+			lastModified: 'yesterday',
+			created: 5000
+		});
+	});
+
+	it('should refresh the expiry using the original freshness lifetime', () => {
+		const cached = { ...page, created: 1000, expires: 3000 };
+		expect(getRevalidation(cached, {}, 5000).expires).toBe(7000);
+	});
+
+	it('should prefer freshness info of the 304 response', () => {
+		const cached = { ...page, created: 1000, expires: 3000 };
+		expect(getRevalidation(cached, { expires: 9000 }, 5000).expires).toBe(9000);
+	});
+});
+
+describe('isStale', () => {
+	it('should compare the expiry date', () => {
+		expect(isStale(page, 1000)).toBe(false);
+		expect(isStale({ ...page, expires: 1000 }, 999)).toBe(false);
+		expect(isStale({ ...page, expires: 1000 }, 1000)).toBe(true);
+	});
+});
+
+describe('matchesVary', () => {
+	it('should compare varying request headers', () => {
+		const cached = { ...page, vary: { accept: 'text/html' } };
+		expect(matchesVary(page, new Headers())).toBe(true);
+		expect(matchesVary(cached, new Headers({ Accept: 'text/html' }))).toBe(true);
+		expect(matchesVary(cached, new Headers({ Accept: 'application/json' }))).toBe(false);
+	});
+});
+
+describe('getConditionalHeaders', () => {
+	it('should return conditional request headers', () => {
+		expect(getConditionalHeaders(page)).toEqual({});
+		expect(getConditionalHeaders({ ...page, etag: '"abc"', lastModified: 'date' })).toEqual({
+			'If-None-Match': '"abc"',
+			'If-Modified-Since': 'date'
+		});
+	});
+});
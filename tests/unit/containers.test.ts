@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+
+const incoming = `
+	<html><body>
+		<header id="header">New header</header>
+		<main id="swup">New main</main>
+		<aside id="sidebar">New sidebar</aside>
+	</body></html>
+`;
+
+const render = async (swup: Swup, navigate: () => void) => {
+	const handler = vi.fn();
+	swup.hooks.on('content:replace', handler);
+	navigate();
+	await vi.waitFor(() => expect(handler).toBeCalled());
+	return handler.mock.calls[0][0];
+};
+
+describe('Partial container replacement', () => {
+	let swup: Swup | undefined;
+
+	afterEach(async () => {
+		await swup?.destroy();
+		swup = undefined;
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		document.body.innerHTML = '';
+	});
+
+	const setup = () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response(incoming))
+		);
+		document.body.innerHTML = `
+			<header id="header">Old header</header>
+			<main id="swup">Old main</main>
+			<aside id="sidebar">Old sidebar</aside>
+		`;
+		swup = new Swup({ containers: ['#header', '#swup', '#sidebar'] });
+		return swup;
+	};
+
+	const text = (selector: string) => document.querySelector(selector)?.textContent;
+
+	it('should replace the containers passed to navigate', async () => {
+		const swup = setup();
+		const visit = await render(swup, () =>
+			swup.navigate('/page', { animate: false, containers: ['#sidebar'] })
+		);
+		expect(visit.containers).toEqual(['#sidebar']);
+		expect(text('#sidebar')).toBe('New sidebar');
+		expect(text('#swup')).toBe('Old main');
+		expect(text('#header')).toBe('Old header');
+	});
+
+	it('should read containers from the trigger element', async () => {
+		const swup = setup();
+		const link = document.createElement('a');
+		link.href = '/linked-page';
+		link.setAttribute('data-swup-containers', '#swup, #sidebar');
+		document.body.appendChild(link);
+
+		const visit = await render(swup, () => link.click());
+		expect(visit.containers).toEqual(['#swup', '#sidebar']);
+		await vi.waitFor(() => expect(text('#sidebar')).toBe('New sidebar'));
+		expect(text('#swup')).toBe('New main');
+		expect(text('#header')).toBe('Old header');
+	});
+
+	it('should replace all containers if a requested container is missing', async () => {
+		const swup = setup();
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const visit = await render(swup, () =>
+			swup.navigate('/page', { animate: false, containers: ['#sidebar', '#missing'] })
+		);
+		expect(warn).toBeCalled();
+		expect(visit.containers).toEqual(['#header', '#swup', '#sidebar']);
+		expect(text('#header')).toBe('New header');
+		expect(text('#swup')).toBe('New main');
+	});
+});
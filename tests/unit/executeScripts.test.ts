@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import type { Options } from '../../src/Swup.js';
+
+/** Collect scripts recreated by swup. */
+const spyOnScripts = () => {
+	const spy = vi.spyOn(Element.prototype, 'replaceWith');
+	return () =>
+		spy.mock.calls
+			.flat()
+			.filter((el): el is HTMLScriptElement => el instanceof HTMLScriptElement)
+			.map((script) => script.getAttribute('src') || script.textContent?.trim());
+};
+
+const visitWithScripts = async (content: string, options: Partial<Options> = {}) => {
+	vi.stubGlobal(
+		'fetch',
+		vi.fn(
+			async () => new Response(`<html><body><main id="swup">${content}</main></body></html>`)
+		)
+	);
+	const swup = new Swup({ executeScripts: true, ...options });
+	const handler = vi.fn();
+	swup.hooks.on('page:view', handler);
+	await swup.navigate('/page', { animate: false });
+	await vi.waitFor(() => expect(handler).toBeCalled());
+	await swup.destroy();
+};
+
+describe('executeScripts', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		document.body.innerHTML = '';
+	});
+
+	it('should not run scripts by default', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		const scripts = spyOnScripts();
+		await visitWithScripts('<script>"first"</script>', { executeScripts: false });
+		expect(scripts()).toEqual([]);
+	});
+
+	it('should run scripts inside replaced containers in order', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		const scripts = spyOnScripts();
+		await visitWithScripts(`
+			<script>"first"</script>
+			<script type="module">"second"</script>
+			<script src="/third.js" async></script>
+		`);
+		expect(scripts()).toEqual(['"first"', '"second"', '/third.js']);
+	});
+
+	it('should keep the async flag of scripts', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		const spy = vi.spyOn(Element.prototype, 'replaceWith');
+		await visitWithScripts('<script src="/async.js" async></script>');
+		const [script] = spy.mock.calls
+			.flat()
+			.filter((el): el is HTMLScriptElement => el instanceof HTMLScriptElement);
+		expect(script.async).toBe(true);
+	});
+
+	it('should skip ignored scripts and non-executable types', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		const scripts = spyOnScripts();
+		await visitWithScripts(`
+			<script>"run"</script>
+			<script data-swup-ignore-script>"ignore"</script>
+			<script type="application/json">{"data": true}</script>
+			<script nomodule src="/legacy.js"></script>
+		`);
+		expect(scripts()).toEqual(['"run"']);
+	});
+
+	it('should stop waiting for external scripts that never load', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		const scripts = spyOnScripts();
+		await visitWithScripts('<script src="/never.js"></script><script>"next"</script>', {
+			executeScripts: { timeout: 50 }
+		});
+		expect(scripts()).toEqual(['/never.js', '"next"']);
+	});
+
+	it('should skip external scripts already loaded', async () => {
+		document.body.innerHTML = '<script src="/loaded.js"></script><main id="swup"></main>';
+		const scripts = spyOnScripts();
+		await visitWithScripts('<script src="/loaded.js" async></script>');
+		expect(scripts()).toEqual([]);
+	});
+
+	it('should reload external scripts marked for reloading', async () => {
+		document.body.innerHTML = '<script src="/loaded.js"></script><main id="swup"></main>';
+		const scripts = spyOnScripts();
+		await visitWithScripts('<script src="/loaded.js" async data-swup-reload-script></script>');
+		expect(scripts()).toEqual(['/loaded.js']);
+	});
+});
@@ -0,0 +1,252 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { FetchError } from '../../src/modules/fetchPage.js';
+import { VisitState } from '../../src/modules/Visit.js';
+
+type Deferred = { resolve: (response: Response) => void; signal?: AbortSignal | null };
+
+const stubFetch = () => {
+	const requests: Deferred[] = [];
+	const fetch = vi.fn(
+		(url: string, options: RequestInit) =>
+			new Promise<Response>((resolve, reject) => {
+				const { signal } = options;
+				signal?.addEventListener('abort', () =>
+					reject(new DOMException('Aborted', 'AbortError'))
+				);
+				requests.push({ resolve, signal });
+			})
+	);
+	vi.stubGlobal('fetch', fetch);
+	return { fetch, requests };
+};
+
+const respond = (request: Deferred, html: string = 'html') => {
+	request.resolve(new Response(html, { status: 200 }));
+};
+
+describe('fetchPage', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+
+	it('should share concurrent requests for the same URL', async () => {
+		const { fetch, requests } = stubFetch();
+		const swup = new Swup();
+
+		const page1 = swup.fetchPage('/page');
+		const page2 = swup.fetchPage('/page');
+		await vi.waitFor(() => expect(requests).toHaveLength(1));
+		expect(fetch).toBeCalledTimes(1);
+
+		respond(requests[0]);
+		await expect(page1).resolves.toMatchObject({ html: 'html' });
+		await expect(page2).resolves.toMatchObject({ html: 'html' });
+	});
+
+	it('should not share requests with different headers', async () => {
+		const { fetch, requests } = stubFetch();
+		const swup = new Swup();
+
+		const page1 = swup.fetchPage('/page', { headers: { 'X-Theme': 'dark' } });
+		const page2 = swup.fetchPage('/page', { headers: { 'X-Theme': 'light' } });
+		const page3 = swup.fetchPage('/page', { headers: { 'x-theme': 'dark' } });
+		await vi.waitFor(() => expect(requests).toHaveLength(2));
+		expect(fetch).toBeCalledTimes(2);
+
+		respond(requests[0], 'dark');
+		respond(requests[1], 'light');
+		await expect(page1).resolves.toMatchObject({ html: 'dark' });
+		await expect(page2).resolves.toMatchObject({ html: 'light' });
+		await expect(page3).resolves.toMatchObject({ html: 'dark' });
+	});
+
+	it('should not share requests after they finish', async () => {
+		const { fetch, requests } = stubFetch();
+		const swup = new Swup({ cache: false });
+
+		const page1 = swup.fetchPage('/page');
+		await vi.waitFor(() => expect(requests).toHaveLength(1));
+		respond(requests[0]);
+		await page1;
+
+		const page2 = swup.fetchPage('/page');
+		await vi.waitFor(() => expect(requests).toHaveLength(2));
+		respond(requests[1]);
+		await page2;
+
+		expect(fetch).toBeCalledTimes(2);
+	});
+
+	it('should not share requests with a body', async () => {
+		const { fetch } = stubFetch();
+		const swup = new Swup();
+
+		swup.fetchPage('/page', { method: 'POST', body: 'data' });
+		swup.fetchPage('/page', { method: 'POST', body: 'data' });
+		await vi.waitFor(() => expect(fetch).toBeCalledTimes(2));
+	});
+
+	it('should time out per caller', async () => {
+		vi.useFakeTimers();
+		const { requests } = stubFetch();
+		const swup = new Swup();
+
+		const page1 = swup.fetchPage('/page', { timeout: 100 });
+		const page2 = swup.fetchPage('/page');
+		const error = page1.catch((error) => error);
+
+		await vi.advanceTimersByTimeAsync(101);
+		expect(await error).toBeInstanceOf(FetchError);
+		expect(await error).toMatchObject({ timedOut: true });
+		expect(requests[0].signal?.aborted).toBe(false);
+
+		respond(requests[0]);
+		await expect(page2).resolves.toMatchObject({ html: 'html' });
+	});
+
+	it('should abort per caller and abort the request once no callers remain', async () => {
+		const { requests } = stubFetch();
+		const swup = new Swup();
+		const controller1 = new AbortController();
+		const controller2 = new AbortController();
+
+		const page1 = swup.fetchPage('/page', { signal: controller1.signal });
+		const page2 = swup.fetchPage('/page', { signal: controller2.signal });
+		await vi.waitFor(() => expect(requests).toHaveLength(1));
+
+		controller1.abort();
+		await expect(page1).rejects.toMatchObject({ aborted: true });
+		expect(requests[0].signal?.aborted).toBe(false);
+
+		controller2.abort();
+		await expect(page2).rejects.toMatchObject({ aborted: true });
+		expect(requests[0].signal?.aborted).toBe(true);
+	});
+
+	it('should keep validators and refresh the expiry on a 304 without validators', async () => {
+		const { requests } = stubFetch();
+		const swup = new Swup();
+		swup.cache.set('/page', { url: '/page', html: 'cached' });
+		const created = Date.now() - 2000;
+		swup.cache.update('/page', { created, expires: created + 1000, etag: '"abc"' });
+		const stale = swup.cache.get('/page')!;
+
+		const page = swup.fetchPage('/page', { revalidate: stale });
+		await vi.waitFor(() => expect(requests).toHaveLength(1));
+		requests[0].resolve(new Response(null, { status: 304 }));
+		await expect(page).resolves.toMatchObject({ html: 'cached' });
+
+		const cached = swup.cache.get('/page')!;
+		expect(cached.etag).toBe('"abc"');
+		expect(cached.expires).toBeGreaterThan(Date.now());
+	});
+});
+
+describe('fetchPage retry', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	// Throw on all error responses instead of rendering them
+	const options = { cache: false, errorPolicy: { '4xx': 'reload', '5xx': 'reload' } } as const;
+
+	const stubResponses = (...responses: (number | Error)[]) => {
+		const fetch = vi.fn(async () => {
+			const next = responses.shift() ?? 200;
+			if (next instanceof Error) throw next;
+			return new Response('html', { status: next });
+		});
+		vi.stubGlobal('fetch', fetch);
+		return fetch;
+	};
+
+	it('should not retry by default', async () => {
+		const fetch = stubResponses(503);
+		const swup = new Swup({ ...options });
+		await expect(swup.fetchPage('/page')).rejects.toBeInstanceOf(FetchError);
+		expect(fetch).toBeCalledTimes(1);
+	});
+
+	it('should retry retryable statuses with backoff', async () => {
+		const fetch = stubResponses(503, 502, 200);
+		const swup = new Swup({ ...options, retry: { attempts: 3, delay: 1 } });
+		const handler = vi.fn();
+		swup.hooks.on('fetch:retry', handler);
+
+		await expect(swup.fetchPage('/page')).resolves.toMatchObject({ html: 'html' });
+		expect(fetch).toBeCalledTimes(3);
+		expect(handler).toBeCalledTimes(2);
+		expect(handler.mock.calls[0][1]).toMatchObject({ attempt: 2, delay: 1, status: 503 });
+		expect(handler.mock.calls[1][1]).toMatchObject({ attempt: 3, delay: 2, status: 502 });
+	});
+
+	it('should retry network errors', async () => {
+		const fetch = stubResponses(new TypeError('Failed to fetch'), 200);
+		const swup = new Swup({ ...options, retry: { attempts: 2, delay: 0 } });
+		await expect(swup.fetchPage('/page')).resolves.toMatchObject({ html: 'html' });
+		expect(fetch).toBeCalledTimes(2);
+	});
+
+	it('should keep retrying after the visit has finished', async () => {
+		const fetch = stubResponses(503, 503, 200);
+		const swup = new Swup({ ...options, retry: { attempts: 3, delay: 0 } });
+		const handler = vi.fn();
+		swup.hooks.on('fetch:retry', handler);
+		swup.hooks.on('fetch:retry', (visit) => {
+			visit.state = VisitState.COMPLETED;
+		});
+
+		await expect(swup.fetchPage('/page')).resolves.toMatchObject({ html: 'html' });
+		expect(fetch).toBeCalledTimes(3);
+		expect(handler).toBeCalledTimes(2);
+	});
+
+	it('should throw a fetch error if no response is returned', async () => {
+		const swup = new Swup({ ...options });
+		swup.hooks.replace('fetch:request', () => undefined as unknown as Promise<Response>);
+		await expect(swup.fetchPage('/page')).rejects.toMatchObject({
+			name: 'FetchError',
+			url: '/page'
+		});
+	});
+
+	it('should not retry non-retryable statuses', async () => {
+		const fetch = stubResponses(404, 200);
+		const swup = new Swup({ ...options, retry: { attempts: 3, delay: 0 } });
+		await expect(swup.fetchPage('/page')).rejects.toMatchObject({ status: 404 });
+		expect(fetch).toBeCalledTimes(1);
+	});
+
+	it('should not retry non-idempotent methods by default', async () => {
+		const fetch = stubResponses(503, 200);
+		const swup = new Swup({ ...options, retry: { attempts: 3, delay: 0 } });
+		const page = swup.fetchPage('/page', { method: 'POST', body: 'data' });
+		await expect(page).rejects.toMatchObject({ status: 503 });
+		expect(fetch).toBeCalledTimes(1);
+	});
+
+	it('should record the attempt history on the error', async () => {
+		const error = new TypeError('Failed to fetch');
+		stubResponses(503, error, 504);
+		const swup = new Swup({ ...options, retry: { attempts: 3, delay: 0 } });
+		await expect(swup.fetchPage('/page')).rejects.toMatchObject({
+			status: 504,
+			attempts: [
+				{ attempt: 1, status: 503 },
+				{ attempt: 2, error },
+				{ attempt: 3, status: 504 }
+			]
+		});
+	});
+
+	it('should throw a fetch error with the attempt history after repeated network errors', async () => {
+		stubResponses(new TypeError('Failed'), new TypeError('Failed'));
+		const swup = new Swup({ ...options, retry: { attempts: 2, delay: 0 } });
+		const result = swup.fetchPage('/page');
+		await expect(result).rejects.toBeInstanceOf(FetchError);
+		await expect(result).rejects.toMatchObject({ attempts: [{ attempt: 1 }, { attempt: 2 }] });
+	});
+});
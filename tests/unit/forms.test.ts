@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { getFormSubmission } from '../../src/helpers.js';
+import { performNavigation } from '../../src/modules/navigate.js';
+
+class SwupWithPublicNavigation extends Swup {
+	public performNavigation = performNavigation;
+}
+
+const instances: Swup[] = [];
+const createSwup = (options: ConstructorParameters<typeof Swup>[0] = {}) => {
+	const swup = new SwupWithPublicNavigation(options);
+	instances.push(swup);
+	return swup;
+};
+
+const createForm = (html: string): HTMLFormElement => {
+	document.body.innerHTML = html;
+	return document.querySelector('form')!;
+};
+
+const submit = (form: HTMLFormElement, submitter: HTMLElement | null = null) => {
+	const event = new SubmitEvent('submit', { bubbles: true, cancelable: true, submitter });
+	form.dispatchEvent(event);
+	return event;
+};
+
+describe('getFormSubmission', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('should serialize GET forms into the URL', () => {
+		const form = createForm(`
+			<form action="/search?page=2#results"><input name="q" value="swup"></form>
+		`);
+		expect(getFormSubmission(form)).toEqual({
+			url: '/search?q=swup',
+			hash: '#results',
+			method: 'GET',
+			target: ''
+		});
+	});
+
+	it('should serialize POST forms into the body', () => {
+		const form = createForm(`
+			<form action="/contact" method="post"><input name="name" value="swup"></form>
+		`);
+		const { url, method, body } = getFormSubmission(form);
+		expect(url).toBe('/contact');
+		expect(method).toBe('POST');
+		expect(body).toBeInstanceOf(URLSearchParams);
+		expect(body?.toString()).toBe('name=swup');
+	});
+
+	it('should send multipart forms as form data', () => {
+		const form = createForm(`
+			<form method="post" enctype="multipart/form-data"><input name="name" value="swup"></form>
+		`);
+		const { body } = getFormSubmission(form);
+		expect(body).toBeInstanceOf(FormData);
+		expect((body as FormData).get('name')).toBe('swup');
+	});
+
+	it('should respect overrides on the submitter', () => {
+		const form = createForm(`
+			<form action="/a" method="get">
+				<button name="action" value="save" formaction="/b" formmethod="post" formtarget="_blank"></button>
+			</form>
+		`);
+		const submitter = form.querySelector('button');
+		const { url, method, body, target } = getFormSubmission(form, submitter);
+		expect(url).toBe('/b');
+		expect(method).toBe('POST');
+		expect(body?.toString()).toBe('action=save');
+		expect(target).toBe('_blank');
+	});
+});
+
+describe('Form submissions', () => {
+	// Prevent actual submissions after swup's handler had a chance to run
+	const preventSubmit = (event: Event) => event.preventDefault();
+
+	beforeEach(() => {
+		window.addEventListener('submit', preventSubmit);
+	});
+
+	afterEach(() => {
+		window.removeEventListener('submit', preventSubmit);
+		instances.splice(0).forEach((swup) => swup.destroy());
+		document.body.innerHTML = '';
+		vi.restoreAllMocks();
+	});
+
+	it('should navigate on submit of opt-in forms', () => {
+		const swup = createSwup();
+		const navigate = vi.spyOn(swup, 'performNavigation').mockResolvedValue();
+		const form = createForm(`
+			<form action="/contact" method="post" data-swup-form><input name="a" value="1"></form>
+		`);
+
+		const event = submit(form);
+
+		expect(event.defaultPrevented).toBe(true);
+		expect(navigate).toBeCalledTimes(1);
+		const [visit, options] = navigate.mock.calls[0];
+		expect(visit.to.url).toBe('/contact');
+		expect(visit.trigger.el).toBe(form);
+		expect(options).toMatchObject({ method: 'POST' });
+		expect(options?.body?.toString()).toBe('a=1');
+	});
+
+	it('should ignore forms not matching the form selector', () => {
+		const swup = createSwup();
+		const navigate = vi.spyOn(swup, 'performNavigation').mockResolvedValue();
+		const form = createForm(`<form action="/contact"></form>`);
+
+		submit(form);
+
+		expect(navigate).not.toBeCalled();
+	});
+
+	it('should ignore forms submitting into other windows', () => {
+		const swup = createSwup({ formSelector: 'form' });
+		const navigate = vi.spyOn(swup, 'performNavigation').mockResolvedValue();
+		const form = createForm(`<form action="/contact"><button formtarget="_blank"></button></form>`);
+
+		submit(form, form.querySelector('button'));
+
+		expect(navigate).not.toBeCalled();
+	});
+
+	it('should trigger the form:submit hook', () => {
+		const swup = createSwup({ formSelector: 'form' });
+		const navigate = vi.spyOn(swup, 'performNavigation').mockResolvedValue();
+		const handler = vi.fn();
+		swup.hooks.replace('form:submit', handler);
+		const form = createForm(`<form action="/search"></form>`);
+
+		submit(form);
+
+		expect(handler).toBeCalledTimes(1);
+		expect(handler.mock.calls[0][1]).toMatchObject({ el: form, submitter: null });
+		expect(navigate).not.toBeCalled();
+	});
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { createVisit } from '../../src/modules/Visit.js';
+import { scrollToContent } from '../../src/modules/scrollToContent.js';
+import { parseTextDirectives } from '../../src/modules/textFragment.js';
+
+class SwupWithPublicScrolling extends Swup {
+	public createVisit = createVisit;
+	public scrollToContent = scrollToContent;
+}
+
+describe('getAnchorElement', () => {
+	let swup: SwupWithPublicScrolling;
+
+	beforeEach(() => {
+		document.body.innerHTML = `
+			<h1 id="title">Title</h1>
+			<a name="named"></a>
+			<h2>Getting started</h2>
+			<p id="intro">The quick <em>brown</em>
+				fox jumps over the lazy dog.</p>
+			<p id="outro">Another fox jumps over the fence.</p>
+			<script>const fox = 'jumps';</script>
+		`;
+		// jsdom doesn't implement CSS.escape and highlights
+		vi.stubGlobal('CSS', { escape: (value: string) => value, highlights: new Map() });
+		vi.stubGlobal(
+			'Highlight',
+			class {
+				ranges: Range[];
+				constructor(...ranges: Range[]) {
+					this.ranges = ranges;
+				}
+			}
+		);
+		swup = new SwupWithPublicScrolling();
+	});
+
+	afterEach(async () => {
+		await swup.destroy();
+		vi.unstubAllGlobals();
+		document.body.innerHTML = '';
+	});
+
+	it('should find elements by id and name', () => {
+		expect(swup.getAnchorElement('#title')?.id).toBe('title');
+		expect(swup.getAnchorElement('named')?.getAttribute('name')).toBe('named');
+		expect(swup.getAnchorElement('#top')).toBe(document.body);
+		expect(swup.getAnchorElement('#missing')).toBeNull();
+	});
+
+	it('should find headings without id by their text', () => {
+		expect(swup.getAnchorElement('#getting-started')?.textContent).toBe('Getting started');
+	});
+
+	it('should find text fragments across elements and whitespace', () => {
+		const el = swup.getAnchorElement('#:~:text=quick%20brown%20fox');
+		expect(el?.closest('p')?.id).toBe('intro');
+	});
+
+	it('should match text fragments with start and end', () => {
+		const el = swup.getAnchorElement('#:~:text=another,fence');
+		expect(el?.id).toBe('outro');
+	});
+
+	it('should match text fragments with prefix and suffix', () => {
+		const el = swup.getAnchorElement('#:~:text=another-,fox,-jumps');
+		expect(el?.id).toBe('outro');
+	});
+
+	it('should ignore the text of scripts', () => {
+		expect(swup.getAnchorElement('#:~:text=const%20fox')).toBeNull();
+	});
+
+	it('should not throw on malformed text fragments', () => {
+		expect(() => swup.getAnchorElement('#:~:text=100%')).not.toThrow();
+		expect(swup.getAnchorElement('#100%')).toBeNull();
+	});
+
+	it('should fall back to the fragment if no text matches', () => {
+		expect(swup.getAnchorElement('#title:~:text=nothing')?.id).toBe('title');
+	});
+
+	it('should try custom resolvers first', () => {
+		swup.options.anchorResolvers = [
+			(hash) => (hash.startsWith('p-') ? swup.getAnchorElement(hash.substring(2)) : null)
+		];
+		expect(swup.getAnchorElement('#p-outro')?.id).toBe('outro');
+		expect(swup.getAnchorElement('#title')?.id).toBe('title');
+	});
+
+	it('should only highlight text fragments when scrolling to them', () => {
+		Element.prototype.scrollIntoView = vi.fn();
+		const hash = '#:~:text=quick%20brown%20fox';
+		swup.getAnchorElement(hash);
+		expect(CSS.highlights.size).toBe(0);
+
+		swup.scrollToContent(swup.createVisit({ to: '/page', hash }));
+		expect(CSS.highlights.get('swup-text-fragment')).toBeDefined();
+
+		swup.scrollToContent(swup.createVisit({ to: '/page', hash: '#intro' }));
+		expect(CSS.highlights.size).toBe(0);
+	});
+
+	it('should let hooks resolve anchors before scrolling', () => {
+		Element.prototype.scrollIntoView = vi.fn();
+		const outro = document.querySelector('#outro');
+		const anchor = vi.fn();
+		swup.hooks.replace('scroll:resolve', () => outro);
+		swup.hooks.before('scroll:anchor', (visit, args) => anchor(args.anchor));
+		const visit = swup.createVisit({ to: '/page', hash: '#custom' });
+		expect(swup.scrollToContent(visit)).toBe(true);
+		expect(anchor).toHaveBeenCalledWith(outro);
+	});
+});
+
+describe('parseTextDirectives', () => {
+	it('should parse prefix, start, end and suffix', () => {
+		expect(parseTextDirectives('text=pre-,Start%20Here,end,-suf')).toEqual([
+			{ prefix: 'pre', start: 'start here', end: 'end', suffix: 'suf' }
+		]);
+	});
+
+	it('should parse multiple directives and skip others', () => {
+		expect(parseTextDirectives('text=one&other=x&text=two')).toHaveLength(2);
+	});
+});
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { FetchError } from '../../src/modules/fetchPage.js';
+import { getErrorPolicy } from '../../src/modules/handleError.js';
+
+class SwupWithPublicErrorPolicy extends Swup {
+	public getErrorPolicy = getErrorPolicy;
+}
+
+const stubFetch = (status: number, html: string = '<title>Error</title>') => {
+	vi.stubGlobal(
+		'fetch',
+		vi.fn(async () => new Response(html, { status }))
+	);
+};
+
+describe('getErrorPolicy', () => {
+	it('should reload on server errors by default', () => {
+		const swup = new SwupWithPublicErrorPolicy();
+		expect(swup.getErrorPolicy(500)).toBe('reload');
+		expect(swup.getErrorPolicy(404)).toBe('render');
+		expect(swup.getErrorPolicy(503)).toBe('render');
+	});
+
+	it('should prefer exact status codes over ranges', () => {
+		const swup = new SwupWithPublicErrorPolicy({
+			errorPolicy: { '404': 'template', '4xx': 'reload', '5xx': 'template' }
+		});
+		expect(swup.getErrorPolicy(404)).toBe('template');
+		expect(swup.getErrorPolicy(410)).toBe('reload');
+		expect(swup.getErrorPolicy(503)).toBe('template');
+	});
+});
+
+describe('Error responses', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		document.body.innerHTML = '';
+	});
+
+	it('should return error responses with the render policy', async () => {
+		stubFetch(404, 'Not found');
+		const swup = new Swup();
+		const handler = vi.fn();
+		swup.hooks.on('fetch:error', handler);
+
+		await expect(swup.fetchPage('/missing')).resolves.toMatchObject({ html: 'Not found' });
+		expect(handler).toBeCalledTimes(1);
+		expect(swup.cache.has('/missing')).toBe(false);
+	});
+
+	it('should throw on error responses with other policies', async () => {
+		stubFetch(503);
+		const swup = new Swup({ errorPolicy: { '5xx': 'template' } });
+		const error = await swup.fetchPage('/unavailable').catch((error) => error);
+		expect(error).toBeInstanceOf(FetchError);
+		expect(error).toMatchObject({ status: 503 });
+		expect(error.message).toMatch(/^Server error/);
+	});
+
+	it('should render the error template and trigger the visit:error hook', async () => {
+		stubFetch(404);
+		document.body.innerHTML = `
+			<main id="swup">Content</main>
+			<template data-swup-error><title>Not found</title><main id="swup">Error</main></template>
+		`;
+		const swup = new Swup({ errorPolicy: { '404': 'template' } });
+		const back = vi.spyOn(window.history, 'back');
+		const handler = vi.fn();
+		swup.hooks.on('visit:error', handler);
+
+		await swup.navigate('/missing', { animate: false });
+		await vi.waitFor(() => expect(handler).toBeCalledTimes(1));
+
+		const [visit, { error }] = handler.mock.calls[0];
+		expect(visit.to.url).toBe('/missing');
+		expect(error).toBeInstanceOf(FetchError);
+		expect(error.status).toBe(404);
+		expect(document.querySelector('#swup')?.textContent).toBe('Error');
+		expect(back).not.toBeCalled();
+	});
+
+	it('should allow replacing the error handling', async () => {
+		stubFetch(500);
+		document.body.innerHTML = `<main id="swup">Content</main>`;
+		const swup = new Swup();
+		const back = vi.spyOn(window.history, 'back');
+		const handler = vi.fn();
+		swup.hooks.replace('visit:error', handler);
+
+		swup.navigate('/error', { animate: false });
+		await vi.waitFor(() => expect(handler).toBeCalledTimes(1));
+
+		expect(back).not.toBeCalled();
+	});
+});
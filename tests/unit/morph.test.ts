@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { morph } from '../../src/modules/morph.js';
+
+const parse = (html: string) =>
+	new DOMParser().parseFromString(html, 'text/html').body.firstElementChild!;
+
+describe('morph', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('should patch text and attributes in place', () => {
+		document.body.innerHTML = '<main id="swup"><h1 class="old">Old</h1><p>Same</p></main>';
+		const heading = document.querySelector('h1')!;
+		const paragraph = document.querySelector('p')!;
+
+		morph(
+			document.querySelector('#swup')!,
+			parse('<main id="swup"><h1 class="new">New</h1><p>Same</p></main>')
+		);
+
+		expect(document.querySelector('h1')).toBe(heading);
+		expect(document.querySelector('p')).toBe(paragraph);
+		expect(heading.className).toBe('new');
+		expect(heading.textContent).toBe('New');
+	});
+
+	it('should add and remove nodes', () => {
+		document.body.innerHTML = '<main id="swup"><p>One</p><p>Two</p><p>Three</p></main>';
+		morph(
+			document.querySelector('#swup')!,
+			parse('<main id="swup"><p>One</p><div>New</div></main>')
+		);
+		expect(document.querySelector('#swup')!.innerHTML).toBe('<p>One</p><div>New</div>');
+	});
+
+	it('should match keyed elements regardless of position', () => {
+		document.body.innerHTML = `<ul id="list"><li id="a">A</li><li data-swup-key="b">B</li></ul>`;
+		const a = document.querySelector('#a');
+		const b = document.querySelector('[data-swup-key="b"]');
+
+		morph(
+			document.querySelector('#list')!,
+			parse(
+				`<ul id="list"><li data-swup-key="b">B</li><li id="c">C</li><li id="a">A</li></ul>`
+			)
+		);
+
+		const items = Array.from(document.querySelectorAll('li'));
+		expect(items.map((li) => li.textContent)).toEqual(['B', 'C', 'A']);
+		expect(items[0]).toBe(b);
+		expect(items[2]).toBe(a);
+	});
+
+	it('should keep input values and focus', () => {
+		document.body.innerHTML = '<form id="form"><label>Name</label><input id="name"></form>';
+		const input = document.querySelector('input')!;
+		input.value = 'Typed';
+		input.focus();
+
+		morph(
+			document.querySelector('#form')!,
+			parse('<form id="form"><label>Your name</label><input id="name"></form>')
+		);
+
+		expect(document.querySelector('input')).toBe(input);
+		expect(input.value).toBe('Typed');
+		expect(document.activeElement).toBe(input);
+		expect(document.querySelector('label')!.textContent).toBe('Your name');
+	});
+
+	it('should keep persisted elements untouched', () => {
+		document.body.innerHTML =
+			'<main id="swup"><div data-swup-persist="player">Playing</div></main>';
+		morph(
+			document.querySelector('#swup')!,
+			parse('<main id="swup"><div data-swup-persist="player">Stopped</div></main>')
+		);
+		expect(document.querySelector('[data-swup-persist]')!.textContent).toBe('Playing');
+	});
+
+	it('should be used by replaceContent when configured', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('<main id="swup"><p>Same</p><p>New</p></main>'))
+		);
+		document.body.innerHTML = '<main id="swup"><p>Same</p></main>';
+		const container = document.querySelector('#swup');
+		const swup = new Swup({ replaceStrategy: 'morph' });
+		const handler = vi.fn();
+		swup.hooks.on('content:replace', handler);
+
+		await swup.navigate('/page', { animate: false });
+		await vi.waitFor(() => expect(handler).toBeCalled());
+		expect(document.querySelector('#swup')).toBe(container);
+		expect(container!.innerHTML).toBe('<p>Same</p><p>New</p>');
+
+		vi.unstubAllGlobals();
+		await swup.destroy();
+	});
+});
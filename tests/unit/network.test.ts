@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { FetchError } from '../../src/modules/fetchPage.js';
+
+const setOnline = (online: boolean) => {
+	vi.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(online);
+};
+
+describe('Network', () => {
+	let swup: Swup | undefined;
+
+	afterEach(async () => {
+		await swup?.destroy();
+		swup = undefined;
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		document.body.innerHTML = '';
+	});
+
+	it('should trigger hooks when the network status changes', async () => {
+		swup = new Swup();
+		const offline = vi.fn();
+		const online = vi.fn();
+		swup.hooks.on('network:offline', offline);
+		swup.hooks.on('network:online', online);
+
+		window.dispatchEvent(new Event('offline'));
+		await vi.waitFor(() => expect(offline).toBeCalledTimes(1));
+		window.dispatchEvent(new Event('online'));
+		await vi.waitFor(() => expect(online).toBeCalledTimes(1));
+	});
+
+	it('should mark network errors as offline errors while offline', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => {
+				throw new TypeError('Failed to fetch');
+			})
+		);
+		swup = new Swup();
+		setOnline(false);
+		const error = await swup.fetchPage('/page').catch((error) => error);
+		expect(error).toBeInstanceOf(FetchError);
+		expect(error).toMatchObject({ offline: true });
+	});
+
+	it('should not mark network errors as offline errors while online', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => {
+				throw new TypeError('Failed to fetch');
+			})
+		);
+		swup = new Swup();
+		setOnline(true);
+		const error = await swup.fetchPage('/page').catch((error) => error);
+		expect(error).toBeInstanceOf(FetchError);
+		expect(error).toMatchObject({ offline: false });
+	});
+
+	it('should serve cached pages while offline', async () => {
+		const fetch = vi.fn();
+		vi.stubGlobal('fetch', fetch);
+		setOnline(false);
+		swup = new Swup();
+		swup.cache.set('/page', { url: '/page', html: '<main id="swup">Cached</main>' });
+		const handler = vi.fn();
+		swup.hooks.on('page:load', handler);
+
+		await swup.navigate('/page', { animate: false });
+		await vi.waitFor(() => expect(handler).toBeCalledTimes(1));
+		expect(handler.mock.calls[0][1]).toMatchObject({ cache: true });
+		expect(fetch).not.toBeCalled();
+	});
+
+	it('should render the offline template and retry once back online', async () => {
+		const fetch = vi.fn(async () => new Response('<main id="swup">Page</main>'));
+		vi.stubGlobal('fetch', fetch);
+		setOnline(false);
+		document.body.innerHTML = `
+			<main id="swup">Content</main>
+			<template data-swup-offline><main id="swup">Offline</main></template>
+		`;
+		swup = new Swup();
+		const back = vi.spyOn(window.history, 'back');
+
+		await swup.navigate('/page', { animate: false });
+		await vi.waitFor(() =>
+			expect(document.querySelector('#swup')?.textContent).toBe('Offline')
+		);
+		expect(back).not.toBeCalled();
+		expect(fetch).not.toBeCalled();
+
+		setOnline(true);
+		window.dispatchEvent(new Event('online'));
+		await vi.waitFor(() => expect(document.querySelector('#swup')?.textContent).toBe('Page'));
+		expect(fetch).toBeCalledTimes(1);
+	});
+});
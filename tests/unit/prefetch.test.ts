@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { Prefetch } from '../../src/modules/Prefetch.js';
+import { Visit } from '../../src/modules/Visit.js';
+
+const page = (url: string) => ({ url, html: url });
+
+const createSwup = (options: ConstructorParameters<typeof Swup>[0] = {}) => {
+	const swup = new Swup({ prefetch: true, ...options });
+	const fetchPage = vi
+		.spyOn(swup, 'fetchPage')
+		.mockImplementation(async (url) => page(String(url)));
+	return { swup, fetchPage };
+};
+
+const createLink = (href: string, attributes: Record<string, string> = {}) => {
+	const el = document.createElement('a');
+	el.setAttribute('href', href);
+	Object.entries(attributes).forEach(([name, value]) => el.setAttribute(name, value));
+	document.body.append(el);
+	return el;
+};
+
+describe('Prefetch', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+		vi.restoreAllMocks();
+	});
+
+	it('should have a prefetch instance', () => {
+		const swup = new Swup();
+		expect(swup.prefetch).toBeInstanceOf(Prefetch);
+	});
+
+	it('should be disabled by default', () => {
+		const swup = new Swup();
+		expect(swup.prefetch.options).toBe(false);
+	});
+
+	it('should merge options with defaults', () => {
+		const swup = new Swup({ prefetch: { visible: true, limit: 2 } });
+		expect(swup.prefetch.options).toEqual({
+			hover: true,
+			focus: true,
+			visible: true,
+			optIn: false,
+			limit: 2
+		});
+	});
+
+	it('should fetch pages', async () => {
+		const { swup, fetchPage } = createSwup();
+		await expect(swup.prefetch.prefetch('/page-1')).resolves.toEqual(page('/page-1'));
+		expect(fetchPage).toBeCalledWith('/page-1', { visit: expect.any(Visit) });
+	});
+
+	it('should deduplicate requests for the same URL', async () => {
+		const { swup, fetchPage } = createSwup();
+		const request1 = swup.prefetch.prefetch('/page-1');
+		const request2 = swup.prefetch.prefetch('/page-1?');
+		expect(request1).toBe(request2);
+		await request1;
+		expect(fetchPage).toBeCalledTimes(1);
+	});
+
+	it('should skip cached pages and the current page', async () => {
+		const { swup, fetchPage } = createSwup();
+		swup.cache.set('/page-1', page('/page-1'));
+		await swup.prefetch.prefetch('/page-1');
+		await swup.prefetch.prefetch(swup.location.url);
+		expect(fetchPage).not.toBeCalled();
+	});
+
+	it('should skip ignored visits', async () => {
+		const { swup, fetchPage } = createSwup({ ignoreVisit: () => true });
+		await expect(swup.prefetch.prefetch('/page-1')).resolves.toBeUndefined();
+		expect(fetchPage).not.toBeCalled();
+	});
+
+	it('should limit concurrent requests', async () => {
+		const { swup, fetchPage } = createSwup({ prefetch: { limit: 2 } });
+		const resolvers: (() => void)[] = [];
+		fetchPage.mockImplementation(
+			(url) => new Promise((resolve) => resolvers.push(() => resolve(page(String(url)))))
+		);
+
+		const requests = ['/page-1', '/page-2', '/page-3'].map((url) =>
+			swup.prefetch.prefetch(url)
+		);
+		await vi.waitFor(() => expect(fetchPage).toBeCalledTimes(2));
+		resolvers[0]();
+		await vi.waitFor(() => expect(fetchPage).toBeCalledTimes(3));
+		resolvers.forEach((resolve) => resolve());
+		await Promise.all(requests);
+	});
+
+	it('should cache pages regardless of the current visit', async () => {
+		const { swup, fetchPage } = createSwup();
+		swup.visit.cache.write = false;
+		await swup.prefetch.prefetch('/page-1');
+		const [, options] = fetchPage.mock.calls[0];
+		expect(options?.visit).not.toBe(swup.visit);
+		expect(options?.visit?.cache.write).toBe(true);
+	});
+
+	it('should be disabled if the cache is disabled', async () => {
+		const { swup, fetchPage } = createSwup({ cache: false });
+		expect(swup.prefetch.options).toBe(false);
+		await expect(swup.prefetch.prefetch('/page-1')).resolves.toBeUndefined();
+		expect(fetchPage).not.toBeCalled();
+	});
+
+	it('should not prefetch pages again that could not be cached', async () => {
+		const { swup, fetchPage } = createSwup();
+		await swup.prefetch.prefetch('/page-1');
+		await swup.prefetch.prefetch('/page-1');
+		expect(fetchPage).toBeCalledTimes(1);
+
+		fetchPage.mockImplementation(async (url) => {
+			swup.cache.set(String(url), page(String(url)));
+			return page(String(url));
+		});
+		await swup.prefetch.prefetch('/page-2');
+		swup.cache.delete('/page-2');
+		await swup.prefetch.prefetch('/page-2');
+		expect(fetchPage).toBeCalledTimes(3);
+	});
+
+	it('should trigger hooks', async () => {
+		const { swup } = createSwup();
+		const start = vi.fn();
+		const end = vi.fn();
+		swup.hooks.on('prefetch:start', start);
+		swup.hooks.on('prefetch:end', end);
+
+		await swup.prefetch.prefetch('/page-1');
+
+		const visit = expect.objectContaining({ to: expect.objectContaining({ url: '/page-1' }) });
+		expect(start).toBeCalledWith(visit, { url: '/page-1', el: undefined }, undefined);
+		expect(end).toBeCalledWith(
+			visit,
+			{ url: '/page-1', el: undefined, page: page('/page-1') },
+			undefined
+		);
+	});
+
+	it('should respect opt-in and opt-out attributes', () => {
+		const swup = new Swup({ prefetch: true });
+		expect(swup.prefetch.shouldPrefetch(createLink('/page'))).toBe(true);
+		const optOutLink = createLink('/page', { 'data-swup-preload': 'false' });
+		expect(swup.prefetch.shouldPrefetch(optOutLink)).toBe(false);
+
+		const optIn = new Swup({ prefetch: { optIn: true } });
+		expect(optIn.prefetch.shouldPrefetch(createLink('/page'))).toBe(false);
+		const optInLink = createLink('/page', { 'data-swup-preload': '' });
+		expect(optIn.prefetch.shouldPrefetch(optInLink)).toBe(true);
+	});
+
+	it('should prefetch links on hover and focus', async () => {
+		const { fetchPage } = createSwup();
+		const link1 = createLink('/page-1');
+		const link2 = createLink('/page-2');
+
+		link1.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }));
+		link2.dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+
+		await vi.waitFor(() => expect(fetchPage).toBeCalledTimes(2));
+		expect(fetchPage).toBeCalledWith('/page-1', { visit: expect.any(Visit) });
+		expect(fetchPage).toBeCalledWith('/page-2', { visit: expect.any(Visit) });
+	});
+
+	it('should stop prefetching when disabled', async () => {
+		const { swup, fetchPage } = createSwup();
+		const link = createLink('/page-1');
+		await swup.destroy();
+
+		link.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }));
+
+		await new Promise((resolve) => setTimeout(resolve));
+		expect(fetchPage).not.toBeCalled();
+	});
+});
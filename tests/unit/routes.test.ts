@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import type { Route, Visit } from '../../src/index.js';
+import { buildRouteUrl, matchRoute } from '../../src/modules/routes.js';
+
+const routes: Route[] = [
+	{ name: 'home', path: '/' },
+	{ name: 'product', path: '/products/:id' },
+	{ name: 'docs', path: '/docs/:path+' }
+];
+
+describe('matchRoute', () => {
+	it('should return the name and params of the first matching route', () => {
+		expect(matchRoute(routes, '/products/42?ref=home')).toEqual({
+			name: 'product',
+			params: { id: '42' }
+		});
+		expect(matchRoute(routes, '/docs/guide/intro')).toEqual({
+			name: 'docs',
+			params: { path: ['guide', 'intro'] }
+		});
+	});
+
+	it('should decode params', () => {
+		expect(matchRoute(routes, '/products/caf%C3%A9')?.params).toEqual({ id: 'café' });
+	});
+
+	it('should not throw on malformed URLs', () => {
+		expect(matchRoute(routes, '/products/%E0%A4%A')?.params).toEqual({ id: '%E0%A4%A' });
+	});
+
+	it('should return undefined if no route matches', () => {
+		expect(matchRoute(routes, '/about')).toBeUndefined();
+		expect(matchRoute([], '/products/42')).toBeUndefined();
+	});
+});
+
+describe('buildRouteUrl', () => {
+	it('should build URLs from params', () => {
+		expect(buildRouteUrl(routes, { name: 'product', params: { id: 42 } })).toBe('/products/42');
+		expect(buildRouteUrl(routes, { name: 'docs', params: { path: ['guide', 'intro'] } })).toBe(
+			'/docs/guide/intro'
+		);
+	});
+
+	it('should encode params and append hashes', () => {
+		expect(buildRouteUrl(routes, { name: 'product', params: { id: 'a b' }, hash: 'top' })).toBe(
+			'/products/a%20b#top'
+		);
+	});
+
+	it('should throw on unknown routes and missing params', () => {
+		expect(() => buildRouteUrl(routes, { name: 'missing' })).toThrow('Unknown route "missing"');
+		expect(() => buildRouteUrl(routes, { name: 'product' })).toThrow(
+			'Error building route "product"'
+		);
+	});
+});
+
+describe('Named routes', () => {
+	let swup: Swup | undefined;
+
+	const navigate = async (...args: Parameters<Swup['navigate']>): Promise<Visit> => {
+		swup = new Swup({ routes });
+		const visit = vi.fn();
+		swup.hooks.on('visit:start', (v) => visit(v));
+		swup.navigate(...args);
+		await vi.waitFor(() => expect(visit).toBeCalled());
+		return visit.mock.calls[0][0] as Visit;
+	};
+
+	beforeEach(() => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		window.history.replaceState(null, '', '/');
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('<main id="swup"></main>'))
+		);
+	});
+
+	afterEach(async () => {
+		await swup?.destroy();
+		swup = undefined;
+		vi.unstubAllGlobals();
+		document.body.innerHTML = '';
+	});
+
+	it('should add matched routes to the visit', async () => {
+		const visit = await navigate('/products/42');
+		expect(visit.from.route).toEqual({ name: 'home', params: {} });
+		expect(visit.to.route).toEqual({ name: 'product', params: { id: '42' } });
+	});
+
+	it('should navigate to named routes', async () => {
+		const visit = await navigate({ name: 'product', params: { id: 7 }, hash: '#reviews' });
+		expect(visit.to.url).toBe('/products/7');
+		expect(visit.to.hash).toBe('#reviews');
+		expect(visit.to.route).toEqual({ name: 'product', params: { id: '7' } });
+	});
+
+	it('should update the route after redirects', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => {
+				const response = new Response('<main id="swup"></main>');
+				Object.defineProperty(response, 'url', {
+					value: 'http://localhost:3000/products/9'
+				});
+				return response;
+			})
+		);
+		swup = new Swup({ routes });
+		const view = vi.fn();
+		swup.hooks.on('page:view', (visit) => view(visit.to.route));
+		swup.navigate('/products/42', { animate: false });
+		await vi.waitFor(() => expect(view).toBeCalled());
+		expect(view).toHaveBeenCalledWith({ name: 'product', params: { id: '9' } });
+	});
+
+	it('should leave the route empty for unmatched URLs', async () => {
+		const visit = await navigate('/about');
+		expect(visit.to.route).toBeUndefined();
+	});
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import type { HistoryState } from '../../src/helpers/history.js';
+import { getScrollPosition, type ScrollPosition } from '../../src/helpers.js';
+
+const position: ScrollPosition = {
+	window: { x: 0, y: 240 },
+	containers: { sidebar: { x: 0, y: 80 } }
+};
+
+const popState = (url: string, scroll?: ScrollPosition) => {
+	const state: HistoryState = { url, source: 'swup', random: Math.random(), scroll };
+	window.history.replaceState(state, '', url);
+	window.dispatchEvent(new PopStateEvent('popstate', { state }));
+};
+
+describe('Scroll restoration', () => {
+	let swup: Swup | undefined;
+
+	beforeEach(() => {
+		document.body.innerHTML =
+			'<main id="swup"></main><aside data-swup-scroll-container="sidebar"></aside>';
+		window.history.replaceState(null, '', '/');
+		vi.stubGlobal('scrollTo', vi.fn());
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('<main id="swup"><h1>Page</h1></main>'))
+		);
+	});
+
+	afterEach(async () => {
+		await swup?.destroy();
+		swup = undefined;
+		vi.unstubAllGlobals();
+		document.body.innerHTML = '';
+		window.history.scrollRestoration = 'auto';
+	});
+
+	it('should read the scroll position of the window and marked containers', () => {
+		vi.stubGlobal('scrollY', 240);
+		const sidebar = document.querySelector('aside')!;
+		Object.defineProperty(sidebar, 'scrollTop', { value: 80, configurable: true });
+		expect(getScrollPosition()).toEqual(position);
+	});
+
+	it('should store the scroll position in the previous history record', async () => {
+		vi.stubGlobal('scrollY', 240);
+		swup = new Swup({ restoreScroll: true });
+		const replaceState = vi.spyOn(window.history, 'replaceState');
+		await swup.navigate('/page', { animate: false });
+		await vi.waitFor(() => expect(window.location.pathname).toBe('/page'));
+		expect(replaceState).toHaveBeenCalledWith(
+			expect.objectContaining({
+				url: '/',
+				scroll: expect.objectContaining({ window: { x: 0, y: 240 } })
+			}),
+			'',
+			'/'
+		);
+	});
+
+	it('should store the scroll position once scrolling stops', async () => {
+		swup = new Swup({ restoreScroll: true });
+		vi.stubGlobal('scrollY', 240);
+		window.dispatchEvent(new Event('scroll'));
+		await vi.waitFor(() =>
+			expect((window.history.state as HistoryState).scroll?.window).toEqual({ x: 0, y: 240 })
+		);
+	});
+
+	it('should forget the scroll position of replaced records', async () => {
+		const state = { url: '/', source: 'swup', random: 0, scroll: position };
+		window.history.replaceState(state, '', '/');
+		swup = new Swup({ restoreScroll: true });
+		await swup.navigate('/page', { animate: false, history: 'replace' });
+		await vi.waitFor(() => expect(window.location.pathname).toBe('/page'));
+		expect((window.history.state as HistoryState).scroll).toBeUndefined();
+	});
+
+	it('should not store the scroll position by default', async () => {
+		swup = new Swup();
+		const replaceState = vi.spyOn(window.history, 'replaceState');
+		await swup.navigate('/page', { animate: false });
+		await vi.waitFor(() => expect(window.location.pathname).toBe('/page'));
+		expect(replaceState).not.toHaveBeenCalled();
+	});
+
+	it('should restore the saved scroll position on history visits', async () => {
+		swup = new Swup({ restoreScroll: true });
+		const sidebar = document.querySelector('aside')!;
+		const handler = vi.fn();
+		swup.hooks.on('page:view', handler);
+		popState('/page', position);
+		await vi.waitFor(() => expect(handler).toBeCalled());
+		expect(window.scrollTo).toHaveBeenCalledWith({ left: 0, top: 240, behavior: 'instant' });
+		expect(sidebar.scrollTop).toBe(80);
+	});
+
+	it('should let hooks handle the restoration', async () => {
+		swup = new Swup({ restoreScroll: true });
+		const restore = vi.fn(() => true);
+		swup.hooks.replace('scroll:restore', restore);
+		popState('/page', position);
+		await vi.waitFor(() => expect(restore).toBeCalled());
+		expect(restore).toHaveBeenCalledWith(expect.anything(), { position }, expect.anything());
+		expect(window.scrollTo).not.toHaveBeenCalled();
+	});
+
+	it('should not restore the scroll position by default', async () => {
+		swup = new Swup();
+		const restore = vi.fn();
+		const handler = vi.fn();
+		swup.hooks.on('scroll:restore', restore);
+		swup.hooks.on('page:view', handler);
+		popState('/page', position);
+		await vi.waitFor(() => expect(handler).toBeCalled());
+		expect(restore).not.toHaveBeenCalled();
+	});
+
+	it('should only take over scroll restoration if enabled', () => {
+		swup = new Swup();
+		expect(window.history.scrollRestoration).toBe('auto');
+		swup.destroy();
+		swup = new Swup({ restoreScroll: true });
+		expect(window.history.scrollRestoration).toBe('manual');
+	});
+});
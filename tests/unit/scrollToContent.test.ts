@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import type { Options } from '../../src/Swup.js';
+import { createVisit } from '../../src/modules/Visit.js';
+import { scrollToContent } from '../../src/modules/scrollToContent.js';
+
+class SwupWithPublicScrolling extends Swup {
+	public createVisit = createVisit;
+	public scrollToContent = scrollToContent;
+	public scrolling?: Promise<void>;
+}
+
+const setRect = (el: Element, rect: Partial<DOMRect>) => {
+	el.getBoundingClientRect = () => ({ top: 0, left: 0, height: 0, ...rect }) as DOMRect;
+};
+
+describe('scrollToContent', () => {
+	let swup: SwupWithPublicScrolling | undefined;
+
+	const scrollToHash = (hash: string, options: Partial<Options> = {}) => {
+		swup = new SwupWithPublicScrolling(options);
+		const visit = swup.createVisit({ to: '/page', hash });
+		return swup.scrollToContent(visit);
+	};
+
+	beforeEach(() => {
+		document.body.innerHTML = `
+			<header></header>
+			<div id="scroller"><h2 id="anchor"></h2></div>
+		`;
+		setRect(document.querySelector('#anchor')!, { top: 500 });
+		vi.stubGlobal('scrollTo', vi.fn());
+		Element.prototype.scrollIntoView = vi.fn();
+	});
+
+	afterEach(async () => {
+		await swup?.destroy();
+		swup = undefined;
+		vi.unstubAllGlobals();
+		document.body.innerHTML = '';
+	});
+
+	it('should scroll anchors into view by default', () => {
+		expect(scrollToHash('#anchor')).toBe(true);
+		const anchor = document.querySelector('#anchor')!;
+		expect(anchor.scrollIntoView).toHaveBeenCalledWith({ behavior: 'auto' });
+		expect(window.scrollTo).not.toHaveBeenCalled();
+	});
+
+	it('should subtract a numeric offset', () => {
+		scrollToHash('#anchor', { scroll: { offset: 80 } });
+		expect(window.scrollTo).toHaveBeenCalledWith({ top: 420, left: 0, behavior: 'auto' });
+	});
+
+	it('should respect the scroll margin of anchors', () => {
+		document.querySelector<HTMLElement>('#anchor')!.style.scrollMarginTop = '20px';
+		scrollToHash('#anchor', { scroll: { offset: 80 } });
+		expect(window.scrollTo).toHaveBeenCalledWith({ top: 400, left: 0, behavior: 'auto' });
+	});
+
+	it('should subtract the height of an offset element', () => {
+		setRect(document.querySelector('header')!, { height: 60 });
+		scrollToHash('#anchor', { scroll: { offset: 'header' } });
+		expect(window.scrollTo).toHaveBeenCalledWith({ top: 440, left: 0, behavior: 'auto' });
+	});
+
+	it('should call offset functions with the anchor', () => {
+		const offset = vi.fn(() => 100);
+		scrollToHash('#anchor', { scroll: { offset } });
+		expect(offset).toHaveBeenCalledWith(document.querySelector('#anchor'));
+		expect(window.scrollTo).toHaveBeenCalledWith({ top: 400, left: 0, behavior: 'auto' });
+	});
+
+	it('should scroll custom containers', () => {
+		const scroller = document.querySelector('#scroller')!;
+		setRect(scroller, { top: 100 });
+		scrollToHash('#anchor', { scroll: { container: '#scroller' } });
+		expect(scroller.scrollTop).toBe(400);
+		expect(window.scrollTo).not.toHaveBeenCalled();
+	});
+
+	it('should animate smooth scrolling in the background', async () => {
+		const easing = vi.fn((t: number) => t);
+		expect(
+			scrollToHash('#anchor', { scroll: { behavior: 'smooth', duration: 30, easing } })
+		).toBe(true);
+		expect(window.scrollTo).not.toHaveBeenCalled();
+		await swup?.scrolling;
+		expect(easing).toHaveBeenCalled();
+		expect(easing).toHaveBeenLastCalledWith(1);
+		expect(window.scrollTo).toHaveBeenLastCalledWith({
+			top: 500,
+			left: 0,
+			behavior: 'instant'
+		});
+	});
+
+	it('should let hooks animate smooth scrolling', async () => {
+		swup = new SwupWithPublicScrolling({ scroll: { behavior: 'smooth' } });
+		const animate = vi.fn(async () => {});
+		swup.hooks.replace('scroll:animate', animate);
+		swup.scrollToContent(swup.createVisit({ to: '/page', hash: '#anchor' }));
+		await swup.scrolling;
+		expect(animate).toHaveBeenCalledWith(
+			expect.anything(),
+			expect.objectContaining({ container: window, top: 500, left: 0, duration: 400 }),
+			expect.anything()
+		);
+		expect(window.scrollTo).not.toHaveBeenCalled();
+	});
+
+	it('should wait for smooth scrolling before the page view if requested', async () => {
+		document.body.innerHTML = '<main id="swup"></main>';
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('<main id="swup"></main>'))
+		);
+		let finish = () => {};
+		swup = new SwupWithPublicScrolling({ scroll: { behavior: 'smooth', await: true } });
+		swup.hooks.replace(
+			'scroll:animate',
+			() => new Promise<void>((resolve) => (finish = resolve))
+		);
+		const view = vi.fn();
+		swup.hooks.on('page:view', view);
+		swup.navigate('/page', { animate: false });
+		await vi.waitFor(() => expect(swup?.scrolling).toBeDefined());
+		expect(view).not.toHaveBeenCalled();
+		finish();
+		await vi.waitFor(() => expect(view).toHaveBeenCalled());
+	});
+
+	it('should let hooks change the scroll behavior', () => {
+		swup = new SwupWithPublicScrolling();
+		swup.hooks.before('scroll:top', (visit, { options }) => {
+			options.behavior = 'instant';
+		});
+		const visit = swup.createVisit({ to: '/page' });
+		swup.scrollToContent(visit);
+		expect(window.scrollTo).toHaveBeenCalledWith({ top: 0, left: 0, behavior: 'instant' });
+	});
+});
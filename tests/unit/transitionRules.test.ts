@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import type { Options, Visit } from '../../src/index.js';
+import { matchTransitionRule, type TransitionRule } from '../../src/modules/transitionRules.js';
+
+const rules: TransitionRule[] = [
+	{ from: '/products', to: '/products/:id', animation: 'zoom', containers: ['#detail'] },
+	{ to: '/products/:id', animation: 'fade', cache: false, scroll: false },
+	{ from: '/blog/:slug', animation: 'slide' }
+];
+
+describe('matchTransitionRule', () => {
+	it('should return the first rule matching both paths', () => {
+		expect(matchTransitionRule(rules, '/products', '/products/42')).toEqual({
+			rule: rules[0],
+			from: {},
+			to: { id: '42' }
+		});
+		expect(matchTransitionRule(rules, '/', '/products/42')?.rule).toBe(rules[1]);
+	});
+
+	it('should match any page if a pattern is missing', () => {
+		expect(matchTransitionRule(rules, '/blog/hello', '/about')).toEqual({
+			rule: rules[2],
+			from: { slug: 'hello' },
+			to: {}
+		});
+	});
+
+	it('should ignore query strings', () => {
+		expect(matchTransitionRule(rules, '/products?page=2', '/products/42')?.rule).toBe(rules[0]);
+	});
+
+	it('should not throw on malformed URLs', () => {
+		expect(matchTransitionRule(rules, '/products', '/products/%E0%A4%A')).toEqual({
+			rule: rules[0],
+			from: {},
+			to: { id: '%E0%A4%A' }
+		});
+	});
+
+	it('should return undefined if no rule matches', () => {
+		expect(matchTransitionRule(rules, '/', '/about')).toBeUndefined();
+	});
+});
+
+describe('Transition rules', () => {
+	let swup: Swup | undefined;
+
+	const visitTo = async (url: string, options: Partial<Options> = {}): Promise<Visit> => {
+		swup = new Swup({ transitions: rules, ...options });
+		const visit = vi.fn();
+		swup.hooks.on('visit:start', (v) => visit(v));
+		swup.navigate(url);
+		await vi.waitFor(() => expect(visit).toBeCalled());
+		return visit.mock.calls[0][0] as Visit;
+	};
+
+	beforeEach(() => {
+		document.body.innerHTML = '<main id="swup"></main><div id="detail"></div>';
+		window.history.replaceState(null, '', '/products');
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('<main id="swup"></main><div id="detail"></div>'))
+		);
+	});
+
+	afterEach(async () => {
+		await swup?.destroy();
+		swup = undefined;
+		vi.unstubAllGlobals();
+		document.body.innerHTML = '';
+	});
+
+	it('should apply the animation and containers of matching rules', async () => {
+		const visit = await visitTo('/products/42');
+		expect(visit.animation.name).toBe('zoom');
+		expect(visit.containers).toEqual(['#detail']);
+	});
+
+	it('should expose matched params on the visit', async () => {
+		const visit = await visitTo('/products/42');
+		expect(visit.from.params).toEqual({});
+		expect(visit.to.params).toEqual({ id: '42' });
+	});
+
+	it('should apply cache and scroll behavior of matching rules', async () => {
+		window.history.replaceState(null, '', '/');
+		const visit = await visitTo('/products/42');
+		expect(visit.animation.name).toBe('fade');
+		expect(visit.cache).toEqual({ read: false, write: false, revalidate: false });
+		expect(visit.scroll.reset).toBe(false);
+	});
+
+	it('should let navigation options take precedence', async () => {
+		swup = new Swup({ transitions: rules });
+		const visit = vi.fn();
+		swup.hooks.on('visit:start', (v) => visit(v));
+		swup.navigate('/products/42', { animation: 'custom', containers: ['#swup'] });
+		await vi.waitFor(() => expect(visit).toBeCalled());
+		const { animation, containers } = visit.mock.calls[0][0] as Visit;
+		expect(animation.name).toBe('custom');
+		expect(containers).toEqual(['#swup']);
+	});
+
+	it('should leave visits without matching rules unchanged', async () => {
+		const visit = await visitTo('/about');
+		expect(visit.animation.name).toBeUndefined();
+		expect(visit.containers).toEqual(['#swup']);
+		expect(visit.to.params).toBeUndefined();
+	});
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { updateAttributes } from '../../src/modules/updateAttributes.js';
+
+class SwupWithPublicUpdateAttributes extends Swup {
+	public updateAttributes = updateAttributes;
+}
+
+const createRoot = (html: string) =>
+	new DOMParser().parseFromString(`${html}<body></body></html>`, 'text/html').documentElement;
+
+describe('updateAttributes', () => {
+	afterEach(() => {
+		const html = document.documentElement;
+		['lang', 'dir', 'data-theme', 'class'].forEach((name) => html.removeAttribute(name));
+	});
+
+	it('should copy allowed attributes', () => {
+		const swup = new SwupWithPublicUpdateAttributes();
+		const html = document.documentElement;
+		html.setAttribute('lang', 'en');
+		html.setAttribute('data-theme', 'light');
+
+		swup.updateAttributes(html, createRoot('<html lang="ar" dir="rtl" data-theme="dark">'), [
+			'lang',
+			'dir'
+		]);
+		expect(html.getAttribute('lang')).toBe('ar');
+		expect(html.getAttribute('dir')).toBe('rtl');
+		expect(html.getAttribute('data-theme')).toBe('light');
+	});
+
+	it('should remove allowed attributes missing on the incoming element', () => {
+		const swup = new SwupWithPublicUpdateAttributes();
+		const html = document.documentElement;
+		html.setAttribute('dir', 'rtl');
+
+		swup.updateAttributes(html, createRoot('<html lang="en">'), ['lang', 'dir']);
+		expect(html.hasAttribute('dir')).toBe(false);
+	});
+
+	it('should merge class lists and keep swup classes', () => {
+		const swup = new SwupWithPublicUpdateAttributes();
+		const html = document.documentElement;
+		html.className = 'page-home swup-enabled is-animating to-fade';
+
+		swup.updateAttributes(html, createRoot('<html class="page-about">'), ['class']);
+		expect(html.className).toBe('page-about swup-enabled is-animating to-fade');
+	});
+
+	it('should not update attributes by default', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('<html><body><main id="swup"></main></body></html>'))
+		);
+		document.body.innerHTML = '<main id="swup"></main>';
+		document.documentElement.setAttribute('lang', 'en');
+		const swup = new Swup();
+		const handler = vi.fn();
+		swup.hooks.on('page:view', handler);
+
+		await swup.navigate('/other', { animate: false });
+		await vi.waitFor(() => expect(handler).toBeCalled());
+		expect(document.documentElement.getAttribute('lang')).toBe('en');
+
+		vi.unstubAllGlobals();
+		await swup.destroy();
+		document.body.innerHTML = '';
+	});
+
+	it('should update attributes during visits', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(
+				async () =>
+					new Response(
+						'<html lang="ar" dir="rtl"><body><main id="swup"></main></body></html>'
+					)
+			)
+		);
+		document.body.innerHTML = '<main id="swup"></main>';
+		document.documentElement.setAttribute('lang', 'en');
+		const swup = new Swup({ updateAttributes: ['lang', 'dir'] });
+		const handler = vi.fn();
+		swup.hooks.on('content:attributes', handler);
+
+		await swup.navigate('/ar', { animate: false });
+		await vi.waitFor(() => expect(document.documentElement.getAttribute('lang')).toBe('ar'));
+		expect(document.documentElement.getAttribute('dir')).toBe('rtl');
+		expect(handler).toBeCalledTimes(2);
+
+		vi.unstubAllGlobals();
+		await swup.destroy();
+		document.body.innerHTML = '';
+	});
+});
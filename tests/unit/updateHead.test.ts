@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import Swup from '../../src/index.js';
+import { getHeadKey, updateHead } from '../../src/modules/updateHead.js';
+
+class SwupWithPublicUpdateHead extends Swup {
+	public updateHead = updateHead;
+}
+
+const parseHead = (html: string) =>
+	new DOMParser().parseFromString(`<head>${html}</head>`, 'text/html').head;
+
+const createElement = (html: string) => parseHead(html).firstElementChild!;
+
+describe('getHeadKey', () => {
+	it('should identify meta tags by name', () => {
+		expect(getHeadKey(createElement('<meta name="description" content="a">'))).toBe(
+			'meta[name="description"]'
+		);
+		expect(getHeadKey(createElement('<meta property="og:title" content="a">'))).toBe(
+			'meta[property="og:title"]'
+		);
+	});
+
+	it('should identify links by relation and href', () => {
+		const a = createElement('<link rel="stylesheet" href="/a.css" media="all">');
+		const b = createElement('<link rel="stylesheet" href="/a.css" media="print">');
+		const c = createElement('<link rel="stylesheet" href="/b.css">');
+		expect(getHeadKey(a)).toBe(getHeadKey(b));
+		expect(getHeadKey(a)).not.toBe(getHeadKey(c));
+	});
+
+	it('should identify other tags by markup', () => {
+		const style = createElement('<style>body { color: red; }</style>');
+		expect(getHeadKey(style)).toBe(style.outerHTML);
+	});
+});
+
+describe('updateHead', () => {
+	afterEach(() => {
+		document.head.innerHTML = '';
+	});
+
+	it('should add, remove and update tags', async () => {
+		document.head.innerHTML = `
+			<meta name="description" content="Old">
+			<link rel="canonical" href="/old">
+			<style>.old {}</style>
+		`;
+		const swup = new SwupWithPublicUpdateHead({ updateHead: true });
+		const { added, removed, updated } = await swup.updateHead(
+			parseHead(`
+				<meta name="description" content="New">
+				<link rel="canonical" href="/new">
+				<meta property="og:title" content="New">
+			`)
+		);
+
+		expect(added).toHaveLength(2);
+		expect(removed).toHaveLength(2);
+		expect(updated).toHaveLength(1);
+		expect(
+			document.head.querySelector('meta[name="description"]')?.getAttribute('content')
+		).toBe('New');
+		expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe(
+			'/new'
+		);
+		expect(document.head.querySelector('meta[property="og:title"]')).not.toBeNull();
+		expect(document.head.querySelector('style')).toBeNull();
+	});
+
+	it('should be disabled by default', () => {
+		expect(new Swup().options.updateHead).toBe(false);
+	});
+
+	it('should keep tags added at runtime by other scripts', async () => {
+		document.head.innerHTML = `<style>.server {}</style>`;
+		const swup = new SwupWithPublicUpdateHead({ updateHead: true });
+		const runtime = document.createElement('style');
+		runtime.textContent = '.runtime {}';
+		document.head.appendChild(runtime);
+
+		const { removed } = await swup.updateHead(parseHead(''));
+		expect(removed).toHaveLength(1);
+		expect(document.head.querySelectorAll('style')).toHaveLength(1);
+		expect(document.head.querySelector('style')).toBe(runtime);
+	});
+
+	it('should remove tags added by swup on later updates', async () => {
+		const swup = new SwupWithPublicUpdateHead({ updateHead: true });
+		await swup.updateHead(parseHead('<meta name="page" content="1">'));
+		const { removed } = await swup.updateHead(parseHead(''));
+		expect(removed).toHaveLength(1);
+		expect(document.head.querySelector('meta')).toBeNull();
+	});
+
+	it('should keep persistent tags', async () => {
+		document.head.innerHTML = `<style data-swup-persist>.keep {}</style>`;
+		const swup = new SwupWithPublicUpdateHead({ updateHead: true });
+		await swup.updateHead(parseHead(''));
+		expect(document.head.querySelector('style')).not.toBeNull();
+	});
+
+	it('should leave the title and scripts alone', async () => {
+		document.head.innerHTML = `<title>Title</title><script src="/app.js"></script>`;
+		const swup = new SwupWithPublicUpdateHead({ updateHead: true });
+		const { added, removed } = await swup.updateHead(
+			parseHead('<script src="/page.js"></script>')
+		);
+		expect(added).toHaveLength(0);
+		expect(removed).toHaveLength(0);
+		expect(document.head.querySelectorAll('script')).toHaveLength(1);
+	});
+
+	it('should wait for new stylesheets to load before removing old tags', async () => {
+		document.head.innerHTML = `<style>.old {}</style>`;
+		const swup = new SwupWithPublicUpdateHead({ updateHead: { timeout: 10_000 } });
+		let resolved = false;
+		const update = swup
+			.updateHead(parseHead('<link rel="stylesheet" href="/page.css">'))
+			.then(() => {
+				resolved = true;
+			});
+
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(resolved).toBe(false);
+		expect(document.head.querySelector('style')).not.toBeNull();
+
+		document.head.querySelector('link')!.dispatchEvent(new Event('load'));
+		await update;
+		expect(resolved).toBe(true);
+		expect(document.head.querySelector('style')).toBeNull();
+	});
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import Swup from '../../src/index.js';
+import {
+	assignTransitionNames,
+	getViewTransitionTypes,
+	renderWithViewTransition
+} from '../../src/modules/viewTransition.js';
+
+class SwupWithPublicViewTransition extends Swup {
+	public renderWithViewTransition = renderWithViewTransition;
+	public renderPage = vi.fn(async () => {});
+}
+
+/** Arguments of `startViewTransition`: a callback, or options with types. */
+type StartViewTransitionOptions = UpdateCallback | { update: UpdateCallback; types?: string[] };
+
+/** Fake view transition implementation, optionally without support for types. */
+const stubViewTransition = ({ types = true } = {}) => {
+	const calls: StartViewTransitionOptions[] = [];
+	const start = vi.fn((options: StartViewTransitionOptions) => {
+		if (typeof options !== 'function' && !types) {
+			throw new TypeError('Not a function');
+		}
+		calls.push(options);
+		const update = typeof options === 'function' ? options : options.update;
+		const updateCallbackDone = Promise.resolve(update());
+		return {
+			updateCallbackDone,
+			ready: updateCallbackDone,
+			finished: updateCallbackDone,
+			skipTransition: vi.fn()
+		};
+	});
+	document.startViewTransition = start as unknown as typeof document.startViewTransition;
+	return { start, calls };
+};
+
+describe('View transitions', () => {
+	afterEach(() => {
+		// @ts-expect-error: remove fake implementation
+		delete document.startViewTransition;
+		document.body.innerHTML = '';
+	});
+
+	it('should assign transition names to marked elements', () => {
+		document.body.innerHTML = `
+			<img data-swup-transition-name="Hero Image">
+			<h1 id="title" data-swup-transition-name></h1>
+		`;
+		assignTransitionNames();
+		const [img, h1] = Array.from(document.body.children) as HTMLElement[];
+		expect(img.style.getPropertyValue('view-transition-name')).toBe('hero-image');
+		expect(h1.style.getPropertyValue('view-transition-name')).toBe('title');
+	});
+
+	it('should use animation name and direction as types', () => {
+		const swup = new Swup();
+		swup.visit.animation.name = 'slide';
+		expect(getViewTransitionTypes(swup.visit)).toEqual(['slide', 'forwards']);
+		swup.visit.animation.name = undefined;
+		swup.visit.history.direction = 'backwards';
+		expect(getViewTransitionTypes(swup.visit)).toEqual(['backwards']);
+	});
+
+	it('should render inside a view transition with types and trigger hooks', async () => {
+		const { calls } = stubViewTransition();
+		const swup = new SwupWithPublicViewTransition();
+		const ready = vi.fn();
+		const finished = vi.fn();
+		swup.hooks.on('animation:native:ready', ready);
+		swup.hooks.on('animation:native:finished', finished);
+
+		await swup.renderWithViewTransition(swup.visit, Promise.resolve({ url: '/', html: '' }));
+
+		expect(calls[0]).toMatchObject({ types: ['forwards'] });
+		expect(swup.renderPage).toBeCalledTimes(1);
+		await vi.waitFor(() => expect(ready).toBeCalledTimes(1));
+		expect(finished).toBeCalledTimes(1);
+	});
+
+	it('should fall back to a plain callback without support for types', async () => {
+		const { start, calls } = stubViewTransition({ types: false });
+		const swup = new SwupWithPublicViewTransition();
+
+		await swup.renderWithViewTransition(swup.visit, Promise.resolve({ url: '/', html: '' }));
+
+		expect(start).toBeCalledTimes(2);
+		expect(typeof calls[0]).toBe('function');
+		expect(swup.renderPage).toBeCalledTimes(1);
+	});
+});
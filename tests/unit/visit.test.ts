@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import Swup from '../../src/Swup.js';
 import { Visit, createVisit } from '../../src/modules/Visit.js';
 
@@ -56,6 +56,34 @@ describe('Visit', () => {
 		 });
 	});
 
+	describe('with reduced motion', () => {
+		beforeEach(() => {
+			vi.stubGlobal('matchMedia', (query: string) => ({
+				matches: query === '(prefers-reduced-motion: reduce)'
+			}));
+		});
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		it('marks the animation as reduced', () => {
+			visit = new SwupWithPublicVisitMethods().createVisit({ to: '' });
+			expect(visit.animation).toMatchObject({ animate: true, reduced: true });
+		});
+
+		it('disables animations if configured', () => {
+			const swup = new SwupWithPublicVisitMethods({ reducedMotion: 'disable' });
+			visit = swup.createVisit({ to: '' });
+			expect(visit.animation).toMatchObject({ animate: false, reduced: true });
+		});
+
+		it('ignores the preference if configured', () => {
+			const swup = new SwupWithPublicVisitMethods({ reducedMotion: 'ignore' });
+			visit = swup.createVisit({ to: '' });
+			expect(visit.animation).toMatchObject({ animate: true, reduced: false });
+		});
+	});
+
 	it('has a container array', () => {
 		expect(visit.containers).to.be.an('array');
 		expect(visit.containers).toEqual(swup.options.containers);
@@ -73,10 +101,17 @@ describe('Visit', () => {
 		expect(visit.cache).to.be.an('object');
 		expect(visit.cache).toEqual({
 			read: swup.options.cache,
-			write: swup.options.cache
+			write: swup.options.cache,
+			revalidate: false
 		});
 	});
 
+	it('enables cache revalidation in stale-while-revalidate mode', () => {
+		const swup = new SwupWithPublicVisitMethods({ cache: 'stale-while-revalidate' });
+		const visit = swup.createVisit({ to: '' });
+		expect(visit.cache).toEqual({ read: true, write: true, revalidate: true });
+	});
+
 	it('has a history object', () => {
 		expect(visit.history).to.be.an('object');
 		expect(visit.history).toEqual({